@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // The platform rejects larger bodies anyway; see MAX_REQUEST_BYTES in src/lib/image-limits.ts.
+      bodySizeLimit: '4.5mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
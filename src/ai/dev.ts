@@ -6,3 +6,4 @@ import '@/ai/flows/iteratively-edit-thumbnail.ts';
 import '@/ai/flows/optimize-prompt.ts';
 import '@/ai/flows/batch-generate-thumbnails.ts';
 import '@/ai/flows/intelligent-fusion.ts';
+import '@/ai/flows/evaluate-consistency.ts';
@@ -0,0 +1,97 @@
+import {GenerateResponse, GenerationBlockedError, GenkitError} from 'genkit';
+import {describe, expect, it} from 'vitest';
+
+import {FlowError, flowFailure, requireMedia, toFlowError} from '@/ai/errors';
+import {TimeoutError} from '@/ai/utils/concurrency';
+import {blockedResponse, emptyResponse, imageResponse} from '@/test/model-stub';
+
+describe('toFlowError', () => {
+  it.each([
+    [new GenkitError({status: 'INVALID_ARGUMENT', message: 'Schema validation failed'}), 'INVALID_INPUT'],
+    [new GenkitError({status: 'UNAUTHENTICATED', message: 'Bad credentials'}), 'MISSING_API_KEY'],
+    [new Error('Please pass in the API key or set GOOGLE_API_KEY'), 'MISSING_API_KEY'],
+    [new GenkitError({status: 'RESOURCE_EXHAUSTED', message: 'Try later'}), 'RATE_LIMITED'],
+    [new Error('[429 Too Many Requests] Quota exceeded'), 'RATE_LIMITED'],
+    [new Error('Model timed out'), 'MODEL_TIMEOUT'],
+    [new Error('[503 Service Unavailable] The model is overloaded'), 'UPSTREAM_ERROR'],
+    [new Error('Generation blocked: SAFETY'), 'SAFETY_BLOCKED'],
+    [new Error('Something odd'), 'UNKNOWN'],
+  ])('classifies %s', (error, code) => {
+    expect(toFlowError(error).code).toBe(code);
+  });
+
+  it('classifies timeouts from the concurrency helpers', () => {
+    expect(toFlowError(new TimeoutError('Step exceeded 1000ms.')).code).toBe('MODEL_TIMEOUT');
+  });
+
+  it('keeps flow errors as they are', () => {
+    const error = new FlowError('EMPTY_MEDIA', 'No image.');
+    expect(toFlowError(error)).toBe(error);
+  });
+});
+
+describe('flowFailure', () => {
+  it('returns the code and whether a retry may help', () => {
+    expect(flowFailure(new Error('[429 Too Many Requests]'))).toEqual({
+      success: false,
+      error: '[429 Too Many Requests]',
+      code: 'RATE_LIMITED',
+      retryable: true,
+    });
+    expect(flowFailure(new FlowError('SAFETY_BLOCKED', 'Generation blocked.'))).toMatchObject({
+      code: 'SAFETY_BLOCKED',
+      retryable: false,
+    });
+  });
+
+  it('explains why a generation was blocked', () => {
+    const blocked = new GenerateResponse(blockedResponse('PROHIBITED_CONTENT'));
+    expect(flowFailure(new GenerationBlockedError(blocked, 'Generation blocked: PROHIBITED_CONTENT'))).toMatchObject({
+      code: 'SAFETY_BLOCKED',
+      reason: 'The request was judged to contain prohibited content.',
+    });
+  });
+
+  it('accepts non-error values', () => {
+    expect(flowFailure('boom')).toMatchObject({error: 'boom', code: 'UNKNOWN'});
+  });
+});
+
+describe('requireMedia', () => {
+  it('returns the image URL', () => {
+    const response = new GenerateResponse(imageResponse('data:image/png;base64,AAAA'));
+    expect(requireMedia(response, 'No image.')).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('throws SAFETY_BLOCKED with the reason when the model refused', () => {
+    const response = new GenerateResponse(blockedResponse('PROHIBITED_CONTENT'));
+    expect(() => requireMedia(response, 'No image.')).toThrow(
+      expect.objectContaining({
+        code: 'SAFETY_BLOCKED',
+        message: 'Generation blocked: PROHIBITED_CONTENT',
+      })
+    );
+  });
+
+  it('detects image safety blocks from the raw response', () => {
+    const response = new GenerateResponse({
+      ...emptyResponse(),
+      finishReason: 'unknown',
+      custom: {candidates: [{finishReason: 'IMAGE_SAFETY'}]},
+    });
+    expect(() => requireMedia(response, 'No image.')).toThrow(
+      expect.objectContaining({
+        code: 'SAFETY_BLOCKED',
+        message: 'Generation blocked: IMAGE_SAFETY',
+        reason: 'The generated image was flagged as potentially harmful.',
+      })
+    );
+  });
+
+  it('throws EMPTY_MEDIA when the response has no image', () => {
+    const response = new GenerateResponse(emptyResponse());
+    expect(() => requireMedia(response, 'No image.')).toThrow(
+      expect.objectContaining({code: 'EMPTY_MEDIA', message: 'No image.'})
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileOverview Typed flow errors. Flows throw FlowError for failures they detect
+ * themselves; everything else (Genkit, the model provider, timeouts) is classified at the
+ * action boundary by toFlowError, so the UI always receives a FlowErrorCode.
+ *
+ * @exports FlowError - An error carrying a FlowErrorCode.
+ * @exports toFlowError - Classify any thrown value into a FlowError.
+ * @exports flowFailure - The `{success: false, ...}` result for a thrown value.
+ * @exports requireMedia - The image URL of a model response, or a typed error.
+ * @exports describeBlockReason - A user-facing explanation of a safety block reason.
+ */
+
+import {GenerationBlockedError, type GenerateResponse} from 'genkit';
+
+import {TimeoutError} from '@/ai/utils/concurrency';
+import {
+  isRetryableCode,
+  type FlowErrorCode,
+  type FlowFailure,
+} from '@/lib/flow-errors';
+
+export class FlowError extends Error {
+  readonly code: FlowErrorCode;
+  /** What went wrong in words a user understands, e.g. why the model refused or which image was rejected. */
+  readonly reason?: string;
+
+  constructor(
+    code: FlowErrorCode,
+    message: string,
+    options?: {cause?: unknown; reason?: string}
+  ) {
+    super(message, options);
+    this.name = 'FlowError';
+    this.code = code;
+    this.reason = options?.reason;
+  }
+
+  get retryable(): boolean {
+    return isRetryableCode(this.code);
+  }
+}
+
+/** Gemini block and finish reasons that mean the safety filters refused the request. */
+const BLOCK_REASONS: Record<string, string> = {
+  SAFETY: 'The prompt or the generated image was flagged as potentially harmful.',
+  IMAGE_SAFETY: 'The generated image was flagged as potentially harmful.',
+  PROHIBITED_CONTENT: 'The request was judged to contain prohibited content.',
+  BLOCKLIST: 'The prompt contains a blocked term.',
+  SPII: 'The request appears to contain sensitive personal information.',
+  RECITATION: 'The result was too close to existing copyrighted material.',
+};
+
+export function describeBlockReason(reason?: string | null): string {
+  return (reason && BLOCK_REASONS[reason]) || "The model's safety filters refused the request.";
+}
+
+/** The raw Gemini response, which the Google AI plugin keeps in `custom`. */
+interface RawGeminiResponse {
+  promptFeedback?: {blockReason?: string};
+  candidates?: {finishReason?: string}[];
+}
+
+/**
+ * The block reason of a response, or null when it was not blocked. Genkit only maps
+ * SAFETY and RECITATION to a `blocked` finish reason, so image and prompt blocks are
+ * read from the raw response.
+ */
+function findBlockReason(response: GenerateResponse): string | null {
+  const raw = response.custom as RawGeminiResponse | undefined;
+  const rawReason = raw?.promptFeedback?.blockReason ?? raw?.candidates?.[0]?.finishReason;
+  if (rawReason && rawReason in BLOCK_REASONS) return rawReason;
+  if (response.finishReason === 'blocked') return response.finishMessage || 'SAFETY';
+  return null;
+}
+
+function classify(error: unknown, message: string): FlowErrorCode {
+  if (error instanceof TimeoutError) return 'MODEL_TIMEOUT';
+  // Prompts rejected before generation surface as a response with no candidates.
+  if (
+    error instanceof GenerationBlockedError ||
+    /Generation blocked|SAFETY|PROHIBITED_CONTENT|No valid candidates returned/.test(message)
+  ) {
+    return 'SAFETY_BLOCKED';
+  }
+
+  const status = (error as {status?: unknown} | null)?.status;
+  if (
+    status === 'UNAUTHENTICATED' ||
+    status === 'PERMISSION_DENIED' ||
+    /API[ _]key/i.test(message)
+  ) {
+    return 'MISSING_API_KEY';
+  }
+  if (status === 'INVALID_ARGUMENT') return 'INVALID_INPUT';
+  if (status === 'RESOURCE_EXHAUSTED' || /\b429\b|quota|rate limit/i.test(message)) {
+    return 'RATE_LIMITED';
+  }
+  if (status === 'DEADLINE_EXCEEDED' || /timed out|deadline exceeded|ETIMEDOUT/i.test(message)) {
+    return 'MODEL_TIMEOUT';
+  }
+  if (
+    status === 'UNAVAILABLE' ||
+    status === 'INTERNAL' ||
+    /\b(500|502|503|504)\b|overloaded|unavailable|fetch failed|ECONNRESET/i.test(message)
+  ) {
+    return 'UPSTREAM_ERROR';
+  }
+  return 'UNKNOWN';
+}
+
+export function toFlowError(error: unknown): FlowError {
+  if (error instanceof FlowError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const code = classify(error, message);
+  if (code === 'SAFETY_BLOCKED') {
+    const blockReason =
+      error instanceof GenerationBlockedError ? findBlockReason(error.detail.response) : null;
+    return new FlowError(code, message, {cause: error, reason: describeBlockReason(blockReason)});
+  }
+  return new FlowError(code, message, {cause: error});
+}
+
+export function flowFailure(error: unknown): FlowFailure {
+  const {code, message, retryable, reason} = toFlowError(error);
+  return {success: false, error: message, code, retryable, ...(reason && {reason})};
+}
+
+/** Throws SAFETY_BLOCKED when the model refused, and EMPTY_MEDIA with `message` otherwise. */
+export function requireMedia(response: GenerateResponse, message: string): string {
+  if (response.media?.url) return response.media.url;
+  const blockReason = findBlockReason(response);
+  if (blockReason) {
+    throw new FlowError('SAFETY_BLOCKED', `Generation blocked: ${blockReason}`, {
+      reason: describeBlockReason(blockReason),
+    });
+  }
+  throw new FlowError('EMPTY_MEDIA', message);
+}
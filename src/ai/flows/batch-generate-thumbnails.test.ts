@@ -0,0 +1,222 @@
+import {describe, expect, it} from 'vitest';
+
+import {batchGenerateThumbnails, type BatchGenerateInput} from '@/ai/flows/batch-generate-thumbnails';
+import {mockImageModel} from '@/ai/providers/mock';
+import type {FlowProgress} from '@/ai/schemas/progress';
+import {ASPECT_RATIO_IDS, ASPECT_RATIOS} from '@/lib/aspect-ratios';
+import {solidPng} from '@/test/fixtures';
+import {blockedResponse, callsTo, emptyResponse, imageModel, textModel} from '@/test/model-stub';
+
+function batch(overrides: Partial<BatchGenerateInput> = {}) {
+  return batchGenerateThumbnails({
+    prompts: ['episode one', 'episode two'],
+    basePrompt: 'Cooking show',
+    aspectRatio: '16:9',
+    consistencyMode: 'none',
+    consistencyCheck: 'none',
+    maxRetries: 0,
+    ...overrides,
+  });
+}
+
+describe('batchGenerateThumbnails', () => {
+  it.each(ASPECT_RATIO_IDS)('sends the %s ratio rule with every prompt', async aspectRatio => {
+    const {thumbnails} = await batch({aspectRatio});
+
+    const calls = callsTo('image');
+    expect(calls).toHaveLength(2);
+    expect(calls[0].system).toMatchSnapshot();
+    for (const call of calls) {
+      expect(call.system).toBe(calls[0].system);
+      expect(call.text).toContain(`- Aspect ratio: exactly ${aspectRatio}`);
+      expect(call.text).toContain(`- Optimized for ${ASPECT_RATIOS[aspectRatio].platform}`);
+    }
+    expect(thumbnails.map(thumbnail => thumbnail.dimensions.requestedAspectRatio)).toEqual([
+      aspectRatio,
+      aspectRatio,
+    ]);
+  });
+
+  it('prefixes each prompt with the base prompt', async () => {
+    await batch();
+
+    const texts = callsTo('image').map(call => call.text).sort();
+    expect(texts[0]).toMatch(/^Cooking show episode one/);
+    expect(texts[1]).toMatch(/^Cooking show episode two/);
+  });
+
+  it('applies the brand kit to every prompt', async () => {
+    await batch({brandKit: {primaryColor: '#ff0055', fonts: [], tone: [], dos: [], donts: []}});
+
+    for (const call of callsTo('image')) {
+      expect(call.system).toContain('- Brand colors: primary #ff0055.');
+    }
+  });
+
+  it('sends the character reference as a media part', async () => {
+    const characterReference = await solidPng(8, 8);
+
+    await batch({consistencyMode: 'character', characterReference});
+
+    for (const call of callsTo('image')) {
+      expect(call.parts).toEqual(['media', 'text']);
+      expect(call.media).toEqual([characterReference]);
+      expect(call.text).toContain('CRITICAL: Maintain exact character consistency');
+      expect(call.system).toContain('(character consistency is CRITICAL)');
+    }
+  });
+
+  it('sends the style reference as a media part', async () => {
+    const styleReference = await solidPng(8, 8);
+
+    await batch({consistencyMode: 'style', styleReference});
+
+    for (const call of callsTo('image')) {
+      expect(call.media).toEqual([styleReference]);
+      expect(call.text).toContain('CRITICAL: Apply the exact artistic style');
+    }
+  });
+
+  it('sends no media for theme consistency', async () => {
+    await batch({consistencyMode: 'theme'});
+
+    for (const call of callsTo('image')) {
+      expect(call.parts).toEqual(['text']);
+      expect(call.text).toContain('CRITICAL: Maintain thematic consistency');
+    }
+  });
+
+  it('keeps successful thumbnails when others fail or are blocked', async () => {
+    imageModel.mockImplementation(async request => {
+      const text = request.messages.at(-1)?.content.at(-1)?.text ?? '';
+      if (text.includes('two')) return blockedResponse('SAFETY');
+      if (text.includes('three')) throw new Error('Invalid argument');
+      if (text.includes('four')) return emptyResponse();
+      return mockImageModel(request);
+    });
+
+    const result = await batch({prompts: ['one', 'two', 'three', 'four'], concurrency: 1});
+
+    expect(result.thumbnails.map(thumbnail => thumbnail.index)).toEqual([0]);
+    expect(result.results).toEqual([
+      {index: 0, prompt: 'one', status: 'ok', error: undefined},
+      {
+        index: 1,
+        prompt: 'two',
+        status: 'blocked',
+        error: 'FAILED_PRECONDITION: Generation blocked: SAFETY',
+        code: 'SAFETY_BLOCKED',
+      },
+      {index: 2, prompt: 'three', status: 'failed', error: 'Invalid argument', code: 'UNKNOWN'},
+      {
+        index: 3,
+        prompt: 'four',
+        status: 'failed',
+        error: 'Image generation did not return an image.',
+        code: 'EMPTY_MEDIA',
+      },
+    ]);
+  });
+
+  it('retries transient errors', async () => {
+    imageModel.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+
+    const result = await batch({prompts: ['one'], maxRetries: 1});
+
+    expect(callsTo('image')).toHaveLength(2);
+    expect(result.results[0].status).toBe('ok');
+  });
+
+  it('does not retry other errors', async () => {
+    imageModel.mockRejectedValueOnce(new Error('Invalid argument'));
+
+    const result = await batch({prompts: ['one'], maxRetries: 2});
+
+    expect(callsTo('image')).toHaveLength(1);
+    expect(result.results[0].status).toBe('failed');
+  });
+
+  it('fails an item that exceeds its timeout', async () => {
+    imageModel.mockImplementationOnce(() => new Promise(() => {}));
+
+    const result = await batch({prompts: ['one'], itemTimeoutMs: 1000});
+
+    expect(result.results[0]).toMatchObject({
+      status: 'failed',
+      error: 'Thumbnail 1 timed out after 1000ms.',
+    });
+  });
+
+  it('times out the remaining items once the batch budget is spent', async () => {
+    imageModel.mockImplementation(() => new Promise(() => {}));
+
+    const result = await batch({prompts: ['one', 'two'], concurrency: 1, maxRetries: 2, timeBudgetMs: 1000});
+
+    expect(callsTo('image')).toHaveLength(1);
+    expect(result.results).toEqual([
+      {index: 0, prompt: 'one', status: 'failed', error: 'Thumbnail 1 timed out after 1000ms.', code: 'MODEL_TIMEOUT'},
+      {
+        index: 1,
+        prompt: 'two',
+        status: 'failed',
+        error: 'Thumbnail 2 timed out: the batch ran out of time.',
+        code: 'MODEL_TIMEOUT',
+      },
+    ]);
+  });
+
+  it('only generates the requested indices', async () => {
+    const result = await batch({prompts: ['one', 'two', 'three'], indices: [2, 0, 2, 7]});
+
+    expect(callsTo('image')).toHaveLength(2);
+    expect(result.results.map(item => item.index)).toEqual([0, 2]);
+  });
+
+  it('returns empty results for an empty batch', async () => {
+    const result = await batch({prompts: [], consistencyCheck: 'perceptual'});
+
+    expect(result).toMatchObject({thumbnails: [], results: []});
+    expect(result.consistency).toBeUndefined();
+    expect(callsTo('image')).toHaveLength(0);
+  });
+
+  it('scores consistency of the successful thumbnails', async () => {
+    const result = await batch({consistencyCheck: 'perceptual'});
+
+    expect(result.consistency?.method).toBe('perceptual');
+    expect(result.consistency?.items.map(item => item.index)).toEqual([0, 1]);
+    expect(result.consistency_score).toBe(result.consistency?.score);
+  });
+
+  it('returns the thumbnails without a score when scoring runs out of time', async () => {
+    textModel.mockImplementation(() => new Promise(() => {}));
+
+    const result = await batch({prompts: ['one'], consistencyCheck: 'vision', timeBudgetMs: 1000});
+
+    expect(result.thumbnails).toHaveLength(1);
+    expect(result.consistency).toBeUndefined();
+  });
+
+  it('reports every item while streaming', async () => {
+    const events: string[] = [];
+
+    await batchGenerateThumbnails(
+      {prompts: ['one', 'two'], basePrompt: '', aspectRatio: '1:1', consistencyMode: 'none', consistencyCheck: 'none'},
+      event => events.push(event.stage)
+    );
+
+    expect(events).toEqual(['item', 'item']);
+  });
+
+  it('streams the error code of a failed item', async () => {
+    imageModel.mockResolvedValueOnce(blockedResponse('SAFETY'));
+    const items: FlowProgress['item'][] = [];
+
+    await batchGenerateThumbnails(
+      {prompts: ['one'], basePrompt: '', aspectRatio: '1:1', consistencyMode: 'none', consistencyCheck: 'none'},
+      event => items.push(event.item)
+    );
+
+    expect(items).toEqual([expect.objectContaining({index: 0, status: 'blocked', code: 'SAFETY_BLOCKED'})]);
+  });
+});
@@ -9,15 +9,58 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {IMAGE_MODEL} from '@/ai/models';
 import {z} from 'genkit';
+import {
+  TimeoutError,
+  isTransientError,
+  mapWithConcurrency,
+  withRetry,
+  withTimeout,
+} from '@/ai/utils/concurrency';
+import {ConsistencyReportSchema, type ConsistencyReport} from '@/ai/schemas/consistency';
+import {evaluateConsistency} from '@/ai/flows/evaluate-consistency';
+import {FlowProgressSchema, type FlowProgress} from '@/ai/schemas/progress';
+import {ImageDimensionsSchema, type ImageDimensions} from '@/ai/schemas/dimensions';
+import {enforceAspectRatio} from '@/ai/utils/aspect-ratio';
+import {AspectRatioSchema} from '@/ai/schemas/aspect-ratio';
+import {PromptRecorder} from '@/ai/prompts';
+import {PromptTemplateRefSchema} from '@/ai/schemas/prompt-template';
+import {BrandKitSchema} from '@/ai/schemas/brand-kit';
+import {withBrandGuidelines} from '@/ai/utils/brand-kit';
+import {requireMedia, toFlowError} from '@/ai/errors';
+import {FLOW_ERROR_CODES} from '@/lib/flow-errors';
+import {ASPECT_RATIOS} from '@/lib/aspect-ratios';
+import {ImageDataUriSchema} from '@/ai/schemas/image-data-uri';
+import {validateImageInputs} from '@/ai/utils/image-input';
+
+/** The maxDuration vercel.json gives every function. */
+const MAX_DURATION_MS = 30_000;
+/** Time consistency scoring gets after the generation budget; it is skipped when that runs out. */
+const SCORING_RESERVE_MS = 5_000;
+/** Kept back at the very end for sending the response. */
+const RESPONSE_RESERVE_MS = 1_000;
+const DEFAULT_TIME_BUDGET_MS = MAX_DURATION_MS - SCORING_RESERVE_MS - RESPONSE_RESERVE_MS;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_ITEM_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RETRIES = 1;
+/** Outpainting is another model call; with less budget left than this the image is cropped instead. */
+const MIN_OUTPAINT_BUDGET_MS = 8_000;
 
 const BatchGenerateInputSchema = z.object({
   prompts: z.array(z.string()).describe('Array of prompts for batch generation.'),
   basePrompt: z.string().describe('Base prompt for consistency across all generations.'),
-  aspectRatio: z.enum(['16:9', '9:16', '1:1']).describe('Aspect ratio for all thumbnails.'),
-  styleReference: z.string().optional().describe('Reference image for style consistency.'),
-  characterReference: z.string().optional().describe('Reference image for character consistency.'),
+  aspectRatio: AspectRatioSchema.describe('Aspect ratio for all thumbnails.'),
+  styleReference: ImageDataUriSchema.optional().describe('Reference image for style consistency.'),
+  characterReference: ImageDataUriSchema.optional().describe('Reference image for character consistency.'),
   consistencyMode: z.enum(['character', 'style', 'theme', 'none']).describe('Type of consistency to maintain.'),
+  concurrency: z.number().int().min(1).max(10).optional().describe(`Maximum number of thumbnails generated in parallel. Defaults to ${DEFAULT_CONCURRENCY}.`),
+  itemTimeoutMs: z.number().int().min(1000).optional().describe(`Timeout for a single generation attempt, in milliseconds. Defaults to ${DEFAULT_ITEM_TIMEOUT_MS}.`),
+  maxRetries: z.number().int().min(0).max(5).optional().describe(`Retries per thumbnail for transient model errors. Defaults to ${DEFAULT_MAX_RETRIES}.`),
+  timeBudgetMs: z.number().int().min(1000).max(DEFAULT_TIME_BUDGET_MS).optional().describe(`Time for generating the whole batch, in milliseconds; items not done by then time out. Defaults to ${DEFAULT_TIME_BUDGET_MS}.`),
+  indices: z.array(z.number().int().min(0)).optional().describe('Only generate the prompts at these indices, e.g. to retry failed items. Defaults to every prompt.'),
+  consistencyCheck: z.enum(['none', 'perceptual', 'vision']).optional().describe('How to score visual consistency of the results. Defaults to "perceptual".'),
+  brandKit: BrandKitSchema.optional().describe('Workspace brand guidelines to follow, if the workspace has a brand kit.'),
 });
 
 export type BatchGenerateInput = z.infer<typeof BatchGenerateInputSchema>;
@@ -27,16 +70,35 @@ const BatchGenerateOutputSchema = z.object({
     image: z.string().describe('Generated thumbnail as data URI.'),
     prompt: z.string().describe('The prompt used for this thumbnail.'),
     index: z.number().describe('Index in the batch.'),
+    dimensions: ImageDimensionsSchema.describe('Measured dimensions of the thumbnail.'),
   })).describe('Array of generated thumbnails with metadata.'),
-  consistency_score: z.number().optional().describe('Estimated consistency score across batch.'),
+  results: z.array(z.object({
+    index: z.number().describe('Index in the batch.'),
+    prompt: z.string().describe('The prompt used for this thumbnail.'),
+    status: z.enum(['ok', 'failed', 'blocked']).describe('Whether the thumbnail was generated, failed, or was blocked by safety filters.'),
+    error: z.string().optional().describe('Why the thumbnail was not generated.'),
+    code: z.enum(FLOW_ERROR_CODES).optional().describe('Error code for a failed or blocked thumbnail.'),
+  })).describe('Status of every requested prompt, in input order.'),
+  consistency_score: z.number().optional().describe('Aggregate visual consistency score across the batch (0-1).'),
+  consistency: ConsistencyReportSchema.optional().describe('Per-item and aggregate consistency scores.'),
+  promptTemplates: z.array(PromptTemplateRefSchema).describe('Prompt template versions that produced the thumbnails.'),
 });
 
 export type BatchGenerateOutput = z.infer<typeof BatchGenerateOutputSchema>;
 
+type BatchItemOutcome = BatchGenerateOutput['results'][number] & {
+  image?: string;
+  dimensions?: ImageDimensions;
+};
+
 export async function batchGenerateThumbnails(
-  input: BatchGenerateInput
+  input: BatchGenerateInput,
+  onProgress?: (event: FlowProgress) => void
 ): Promise<BatchGenerateOutput> {
-  return batchGenerateFlow(input);
+  if (!onProgress) return batchGenerateFlow(input);
+  const {stream, output} = batchGenerateFlow.stream(input);
+  for await (const event of stream) onProgress(event);
+  return output;
 }
 
 const batchGenerateFlow = ai.defineFlow(
@@ -44,77 +106,177 @@ const batchGenerateFlow = ai.defineFlow(
     name: 'batchGenerateFlow',
     inputSchema: BatchGenerateInputSchema,
     outputSchema: BatchGenerateOutputSchema,
+    streamSchema: FlowProgressSchema,
   },
-  async input => {
-    const thumbnails = [];
-    
-    // Build consistency prompt based on mode
-    let consistencyInstruction = '';
-    const referenceImages = [];
-    
+  async (input, {sendChunk}) => {
+    await validateImageInputs({
+      styleReference: input.styleReference,
+      characterReference: input.characterReference,
+    });
+
+    // Character and style consistency only apply when their reference image was given
+    const referenceImages: { media: { url: string } }[] = [];
+    let appliedConsistency = input.consistencyMode;
     if (input.consistencyMode === 'character' && input.characterReference) {
-      consistencyInstruction = ' CRITICAL: Maintain exact character consistency - same facial features, hair, clothing style, and character design as shown in the reference image. The character should be immediately recognizable across all variations.';
       referenceImages.push({ media: { url: input.characterReference } });
     } else if (input.consistencyMode === 'style' && input.styleReference) {
-      consistencyInstruction = ' CRITICAL: Apply the exact artistic style, color palette, lighting technique, brushwork, and visual treatment from the reference image to create a cohesive series.';
       referenceImages.push({ media: { url: input.styleReference } });
-    } else if (input.consistencyMode === 'theme') {
-      consistencyInstruction = ' CRITICAL: Maintain thematic consistency - same mood, color scheme, composition style, and visual hierarchy across all thumbnails in this series.';
+    } else if (input.consistencyMode !== 'theme') {
+      appliedConsistency = 'none';
     }
 
-    // Generate thumbnails with enhanced consistency
-    for (let i = 0; i < input.prompts.length; i++) {
-      const prompt = input.prompts[i];
-      
-      // Enhanced prompt with consistency and fusion instructions
-      const enhancedPrompt = `${input.basePrompt} ${prompt}${consistencyInstruction} 
-      
-      TECHNICAL REQUIREMENTS:
-      - Aspect ratio: exactly ${input.aspectRatio}
-      - Professional thumbnail quality with high visual impact
-      - Clear focal point and readable text elements
-      - Consistent branding and style throughout the series
-      - Optimized for ${input.aspectRatio === '16:9' ? 'YouTube thumbnails' : input.aspectRatio === '9:16' ? 'vertical social media' : 'square social posts'}`;
-
-      try {
-        const {media} = await ai.generate({
-          model: 'googleai/gemini-2.5-flash-image-preview',
-          system: `You are an expert thumbnail designer specializing in creating consistent, high-impact visual series. You excel at maintaining visual consistency across multiple designs while ensuring each thumbnail is unique and engaging.
-
-${input.aspectRatio === '9:16'
-  ? 'Generate vertical 9:16 thumbnails. Keep all text and visual elements fully inside the frame with comfortable safe margins. Do NOT crop or cut any content; instead, scale and reposition elements to fit the vertical format.'
-  : `Generate thumbnails with exact aspect ratio ${input.aspectRatio}. Ensure all elements fit properly within the frame.`}
-
-Focus on:
-- Visual consistency ${input.consistencyMode !== 'none' ? `(${input.consistencyMode} consistency is CRITICAL)` : ''}
-- High contrast and readability
-- Professional design quality
-- Thumbnail-optimized composition
-- Clear visual hierarchy`,
-          prompt: [
-            ...referenceImages,
-            { text: enhancedPrompt },
-          ],
+    const prompts = new PromptRecorder();
+    const system = withBrandGuidelines(
+      prompts.render('batch.system', {
+        ratioRule: prompts.render('ratio-rule', { aspectRatio: input.aspectRatio }),
+        consistencyMode: input.consistencyMode,
+      }),
+      prompts,
+      input.brandKit
+    );
+
+    const itemTimeoutMs = input.itemTimeoutMs ?? DEFAULT_ITEM_TIMEOUT_MS;
+    // One deadline for the whole batch, so retries and outpainting cannot run past maxDuration
+    const deadline = Date.now() + (input.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+    const timeLeft = () => deadline - Date.now();
+
+    const indices = input.indices
+      ? [...new Set(input.indices)].filter(i => i < input.prompts.length).sort((a, b) => a - b)
+      : input.prompts.map((_, i) => i);
+
+    let completed = 0;
+    const report = (outcome: BatchItemOutcome) => {
+      completed++;
+      const { index, prompt, status, error, code, image, dimensions } = outcome;
+      sendChunk({
+        stage: 'item',
+        message: `Thumbnail ${index + 1} ${status === 'ok' ? 'finished' : status} (${completed}/${indices.length})`,
+        completed,
+        total: indices.length,
+        item: { index, prompt, status, error, code, image, dimensions },
+      });
+      return outcome;
+    };
+
+    // Generate thumbnails in parallel; results come back in input order
+    const outcomes = await mapWithConcurrency(
+      indices,
+      input.concurrency ?? DEFAULT_CONCURRENCY,
+      async (i): Promise<BatchItemOutcome> => {
+        const prompt = input.prompts[i];
+        const enhancedPrompt = prompts.render('batch.item', {
+          basePrompt: input.basePrompt,
+          prompt,
+          consistency: appliedConsistency,
+          aspectRatio: input.aspectRatio,
+          platform: ASPECT_RATIOS[input.aspectRatio].platform,
         });
 
-        if (media?.url) {
-          thumbnails.push({
-            image: media.url,
-            prompt: prompt,
-            index: i,
+        try {
+          const image = await withRetry(
+            async () => {
+              const timeoutMs = Math.min(itemTimeoutMs, timeLeft());
+              if (timeoutMs <= 0) {
+                throw new TimeoutError(`Thumbnail ${i + 1} timed out: the batch ran out of time.`);
+              }
+              return withTimeout(
+                async abortSignal => {
+                  const response = await ai.generate({
+                    model: IMAGE_MODEL,
+                    system,
+                    prompt: [
+                      ...referenceImages,
+                      { text: enhancedPrompt },
+                    ],
+                    abortSignal,
+                  });
+                  return requireMedia(response, 'Image generation did not return an image.');
+                },
+                timeoutMs,
+                `Thumbnail ${i + 1}`
+              );
+            },
+            {
+              retries: input.maxRetries ?? DEFAULT_MAX_RETRIES,
+              shouldRetry: isTransientError,
+              deadline,
+            }
+          );
+          const outpaintTimeoutMs = timeLeft();
+          const { image: corrected, dimensions } = await enforceAspectRatio(image, input.aspectRatio, {
+            allowOutpaint: outpaintTimeoutMs >= MIN_OUTPAINT_BUDGET_MS,
+            outpaintTimeoutMs,
+            prompts,
           });
+          return report({ index: i, prompt, status: 'ok', image: corrected, dimensions });
+        } catch (error) {
+          console.error(`Batch generation failed for prompt ${i}:`, error);
+          // Continue with other prompts even if one fails
+          return report({ index: i, prompt, ...classifyFailure(error) });
         }
-      } catch (error) {
-        console.error(`Batch generation failed for prompt ${i}:`, error);
-        // Continue with other prompts even if one fails
       }
+    );
+
+    const thumbnails = outcomes.flatMap(({ image, prompt, index, dimensions }) =>
+      image && dimensions ? [{ image, prompt, index, dimensions }] : []
+    );
+
+    if (thumbnails.length && input.consistencyCheck !== 'none') {
+      sendChunk({ stage: 'scoring', message: 'Scoring visual consistency...' });
     }
+    const consistency = await scoreConsistency(input, thumbnails, deadline + SCORING_RESERVE_MS - Date.now());
 
     return {
       thumbnails,
-      consistency_score: thumbnails.length / input.prompts.length, // Simple consistency metric
+      results: outcomes.map(({ index, prompt, status, error, code }) => ({ index, prompt, status, error, code })),
+      consistency_score: consistency?.score,
+      consistency,
+      promptTemplates: prompts.refs(),
     };
   }
 );
 
+async function scoreConsistency(
+  input: BatchGenerateInput,
+  thumbnails: BatchGenerateOutput['thumbnails'],
+  timeoutMs: number
+): Promise<ConsistencyReport | undefined> {
+  const method = input.consistencyCheck ?? 'perceptual';
+  if (method === 'none' || thumbnails.length === 0) return undefined;
+  if (timeoutMs <= 0) {
+    console.error('Batch consistency scoring skipped: the batch ran out of time.');
+    return undefined;
+  }
+
+  const referenceKind =
+    input.consistencyMode === 'character' && input.characterReference
+      ? 'character'
+      : input.consistencyMode === 'style' && input.styleReference
+        ? 'style'
+        : undefined;
+
+  try {
+    return await withTimeout(
+      () =>
+        evaluateConsistency({
+          thumbnails: thumbnails.map(({ index, image }) => ({ index, image })),
+          reference: referenceKind === 'character' ? input.characterReference : referenceKind === 'style' ? input.styleReference : undefined,
+          referenceKind,
+          method,
+        }),
+      timeoutMs,
+      'Consistency scoring'
+    );
+  } catch (error) {
+    // Scoring is advisory; never lose generated thumbnails because of it.
+    console.error('Batch consistency scoring failed:', error);
+    return undefined;
+  }
+}
+
+function classifyFailure(error: unknown): Pick<BatchItemOutcome, 'status' | 'error' | 'code'> {
+  const { code, message } = toFlowError(error);
+  return { status: code === 'SAFETY_BLOCKED' ? 'blocked' : 'failed', error: message, code };
+}
+
 
@@ -0,0 +1,88 @@
+import {beforeEach, describe, expect, it} from 'vitest';
+
+import {evaluateConsistency} from '@/ai/flows/evaluate-consistency';
+import {solidPng} from '@/test/fixtures';
+import {callsTo, textModel, textResponse} from '@/test/model-stub';
+
+let red: string;
+let blue: string;
+
+beforeEach(async () => {
+  red = await solidPng(32, 18, '#dd2222');
+  blue = await solidPng(32, 18, '#2222dd');
+});
+
+describe('evaluateConsistency', () => {
+  it('scores identical thumbnails as consistent without calling a model', async () => {
+    const report = await evaluateConsistency({
+      thumbnails: [0, 1, 2].map(index => ({index, image: red})),
+    });
+
+    expect(callsTo('text')).toHaveLength(0);
+    expect(report.method).toBe('perceptual');
+    expect(report.score).toBeGreaterThan(0.95);
+    expect(report.items.every(item => !item.outlier)).toBe(true);
+  });
+
+  it('flags the off-model thumbnail', async () => {
+    const report = await evaluateConsistency({
+      thumbnails: [red, red, blue, red].map((image, index) => ({index, image})),
+    });
+
+    expect(report.items.filter(item => item.outlier).map(item => item.index)).toEqual([2]);
+  });
+
+  it('sends the reference first and maps 1-based vision labels back to indices', async () => {
+    textModel.mockResolvedValueOnce(
+      textResponse(
+        JSON.stringify({
+          items: [
+            {index: 4, score: 9, notes: 'On model'},
+            {index: 6, score: 2, notes: 'Different character'},
+          ],
+        })
+      )
+    );
+
+    const report = await evaluateConsistency({
+      thumbnails: [
+        {index: 3, image: red},
+        {index: 5, image: blue},
+      ],
+      reference: red,
+      referenceKind: 'character',
+      method: 'vision',
+    });
+
+    const [call] = callsTo('text');
+    expect(call.media).toEqual([red, red, blue]);
+    expect(call.text).toContain('The FIRST image is the character reference');
+    expect(call.text).toContain('thumbnails labelled 4, 6');
+    expect(report.items.map(item => [item.index, item.visionScore, item.outlier])).toEqual([
+      [3, 0.9, false],
+      [5, 0.2, true],
+    ]);
+  });
+
+  it.each([
+    ['clamps small overshoots', [10.5, 9, -1], [1, 0.9, 0]],
+    ['reads a 100-point scale', [85, 12, 40], [0.85, 0.12, 0.4]],
+  ])('%s in vision scores', async (_, scores, expected) => {
+    textModel.mockResolvedValueOnce(
+      textResponse(
+        JSON.stringify({items: scores.map((score, i) => ({index: i + 1, score, notes: ''}))})
+      )
+    );
+
+    const report = await evaluateConsistency({
+      thumbnails: [
+        {index: 0, image: red},
+        {index: 1, image: red},
+        {index: 2, image: blue},
+      ],
+      method: 'vision',
+    });
+
+    expect(report.items.map(item => item.visionScore)).toEqual(expected);
+  });
+});
@@ -0,0 +1,177 @@
+'use server';
+
+/**
+ * @fileOverview Scores how visually consistent a series of thumbnails is, against each other
+ * and against an optional character/style reference.
+ *
+ * @exports evaluateConsistency - Score a series of thumbnails and flag off-model items
+ * @exports EvaluateConsistencyInput - Input type for consistency evaluation
+ * @exports EvaluateConsistencyOutput - Output type for consistency evaluation
+ */
+
+import {ai} from '@/ai/genkit';
+import {TEXT_MODEL} from '@/ai/models';
+import {renderPrompt} from '@/ai/prompts';
+import {z} from 'genkit';
+import {ConsistencyReportSchema, type ConsistencyReport} from '@/ai/schemas/consistency';
+import {compareSignatures, computeImageSignature} from '@/ai/utils/image-metrics';
+import {ImageDataUriSchema} from '@/ai/schemas/image-data-uri';
+import {validateImageInputs} from '@/ai/utils/image-input';
+
+/** How far below the series median an item may score before it is flagged. */
+const OUTLIER_MARGIN = 0.15;
+/** Vision scores below this are flagged regardless of the rest of the series. */
+const VISION_OUTLIER_THRESHOLD = 0.5;
+const VISION_WEIGHT = 0.6;
+/** Vision scores above this are read as percentages; smaller overshoots are clamped to 10. */
+const PERCENT_SCALE_THRESHOLD = 11;
+
+const EvaluateConsistencyInputSchema = z.object({
+  thumbnails: z.array(z.object({
+    index: z.number().describe('Index of the thumbnail in the batch.'),
+    image: ImageDataUriSchema.describe('Thumbnail as a data URI.'),
+  })).min(1).describe('Thumbnails in the series.'),
+  reference: ImageDataUriSchema.optional().describe('Character or style reference image as a data URI.'),
+  referenceKind: z.enum(['character', 'style']).optional().describe('What the reference image should be matched on.'),
+  method: z.enum(['perceptual', 'vision']).optional().describe('Use only local perceptual metrics, or add a vision-model judging pass. Defaults to "perceptual".'),
+});
+
+export type EvaluateConsistencyInput = z.infer<typeof EvaluateConsistencyInputSchema>;
+export type EvaluateConsistencyOutput = ConsistencyReport;
+
+export async function evaluateConsistency(
+  input: EvaluateConsistencyInput
+): Promise<EvaluateConsistencyOutput> {
+  return evaluateConsistencyFlow(input);
+}
+
+const VisionJudgementSchema = z.object({
+  items: z.array(z.object({
+    index: z.number().describe('The label number of the thumbnail being judged.'),
+    // Not range-checked: one out-of-range score would otherwise fail the whole report.
+    score: z.number().describe('How consistent this thumbnail is with the series and reference (0-10).'),
+    notes: z.string().describe('Short explanation of any inconsistency.'),
+  })),
+});
+
+const evaluateConsistencyFlow = ai.defineFlow(
+  {
+    name: 'evaluateConsistencyFlow',
+    inputSchema: EvaluateConsistencyInputSchema,
+    outputSchema: ConsistencyReportSchema,
+  },
+  async input => {
+    await validateImageInputs({
+      thumbnails: input.thumbnails.map(thumbnail => thumbnail.image),
+      reference: input.reference,
+    });
+
+    const method = input.method ?? 'perceptual';
+    const signatures = await Promise.all(
+      input.thumbnails.map(thumbnail => computeImageSignature(thumbnail.image))
+    );
+    const referenceSignature = input.reference
+      ? await computeImageSignature(input.reference)
+      : undefined;
+
+    const perceptual = signatures.map((signature, i) => {
+      const peers = signatures.filter((_, j) => j !== i);
+      const peerSimilarity = peers.length
+        ? mean(peers.map(peer => compareSignatures(signature, peer)))
+        : undefined;
+      const referenceSimilarity = referenceSignature
+        ? compareSignatures(signature, referenceSignature)
+        : undefined;
+      const parts = [peerSimilarity, referenceSimilarity].filter(
+        (value): value is number => value !== undefined
+      );
+      return {
+        peerSimilarity,
+        referenceSimilarity,
+        // A single thumbnail with no reference has nothing to be inconsistent with.
+        score: parts.length ? mean(parts) : 1,
+      };
+    });
+
+    const judgements = method === 'vision' ? await judgeWithVision(input) : undefined;
+
+    const items = input.thumbnails.map((thumbnail, i) => {
+      const judgement = judgements?.get(thumbnail.index);
+      const visionScore = judgement ? judgement.score / 10 : undefined;
+      const score =
+        visionScore === undefined
+          ? perceptual[i].score
+          : VISION_WEIGHT * visionScore + (1 - VISION_WEIGHT) * perceptual[i].score;
+      return {
+        index: thumbnail.index,
+        score: clamp(score),
+        peerSimilarity: optionalClamp(perceptual[i].peerSimilarity),
+        referenceSimilarity: optionalClamp(perceptual[i].referenceSimilarity),
+        visionScore,
+        notes: judgement?.notes,
+        outlier: false,
+      };
+    });
+
+    const median = medianOf(items.map(item => item.score));
+    for (const item of items) {
+      item.outlier =
+        (items.length > 2 && item.score < median - OUTLIER_MARGIN) ||
+        (item.visionScore !== undefined && item.visionScore < VISION_OUTLIER_THRESHOLD);
+    }
+
+    return {
+      score: clamp(mean(items.map(item => item.score))),
+      method,
+      items,
+    };
+  }
+);
+
+async function judgeWithVision(input: EvaluateConsistencyInput) {
+  const response = await ai.generate({
+    model: TEXT_MODEL,
+    system: renderPrompt('consistency.judge-system', {}).text,
+    prompt: [
+      ...(input.reference ? [{ media: { url: input.reference } }] : []),
+      ...input.thumbnails.map(thumbnail => ({ media: { url: thumbnail.image } })),
+      {
+        text: renderPrompt('consistency.judge', {
+          labels: input.thumbnails.map(thumbnail => thumbnail.index + 1),
+          referenceKind: input.referenceKind,
+          hasReference: !!input.reference,
+        }).text,
+      },
+    ],
+    output: { schema: VisionJudgementSchema },
+  });
+
+  const items = response.output?.items ?? [];
+  // A judge that scored well past 10 used a 100-point scale for the whole answer.
+  const scale = Math.max(0, ...items.map(item => item.score)) > PERCENT_SCALE_THRESHOLD ? 10 : 1;
+  const judgements = new Map<number, { score: number; notes: string }>();
+  for (const item of items) {
+    // Labels shown to the model are 1-based batch indices.
+    const score = Math.min(10, Math.max(0, item.score / scale));
+    judgements.set(item.index - 1, { score, notes: item.notes });
+  }
+  return judgements;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function optionalClamp(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : clamp(value);
+}
@@ -0,0 +1,316 @@
+import {describe, expect, it} from 'vitest';
+
+import {generateThumbnailFromPrompt} from '@/ai/flows/generate-thumbnail-from-prompt';
+import {measureImage} from '@/ai/utils/aspect-ratio';
+import {ASPECT_RATIO_IDS, ASPECT_RATIOS} from '@/lib/aspect-ratios';
+import {solidPng} from '@/test/fixtures';
+import {
+  blockedResponse,
+  callsTo,
+  emptyResponse,
+  imageModel,
+  imageResponse,
+  textModel,
+  textResponse,
+} from '@/test/model-stub';
+
+describe('generateThumbnailFromPrompt', () => {
+  it.each(ASPECT_RATIO_IDS)('sends the exact %s system prompt', async aspectRatio => {
+    await generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio});
+
+    const [call] = callsTo('image');
+    expect(call.system).toMatchSnapshot();
+    expect(call.text).toBe('User prompt: a cat');
+  });
+
+  it.each(ASPECT_RATIO_IDS)('returns a %s image', async aspectRatio => {
+    const {thumbnail, dimensions} = await generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio});
+
+    const {width, height} = await measureImage(thumbnail);
+    const spec = ASPECT_RATIOS[aspectRatio];
+    expect(width / height).toBeCloseTo(spec.width / spec.height, 1);
+    expect(dimensions).toMatchObject({width, height, requestedAspectRatio: aspectRatio, correction: 'none'});
+  });
+
+  it('sends reference images as media parts before the prompt', async () => {
+    const image1 = await solidPng(8, 8, '#ff0000');
+    const image2 = await solidPng(8, 8, '#00ff00');
+
+    await generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', image1, image2});
+
+    const [call] = callsTo('image');
+    expect(call.parts).toEqual(['media', 'media', 'text']);
+    expect(call.media).toEqual([image1, image2]);
+  });
+
+  describe('reference image validation', () => {
+    it('rejects a value that is not a data URI', async () => {
+      await expect(
+        generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', image1: 'https://example.com/cat.png'})
+      ).rejects.toThrow('INVALID_ARGUMENT');
+      expect(callsTo('image')).toHaveLength(0);
+    });
+
+    it('rejects an unsupported image type', async () => {
+      await expect(
+        generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', image2: 'data:image/gif;base64,R0lGOD=='})
+      ).rejects.toThrow('image2: image/gif images are not supported. Use PNG, JPEG, WEBP.');
+    });
+
+    it('rejects an image over the size limit before decoding it', async () => {
+      const image1 = `data:image/png;base64,${'A'.repeat(6 * 1024 * 1024)}`;
+
+      await expect(generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', image1})).rejects.toThrow(
+        'image1: An image is 4.50 MB, over the 3.03 MB limit.'
+      );
+    });
+
+    it('rejects bytes that do not match the declared type', async () => {
+      const png = await solidPng(8, 8);
+
+      await expect(
+        generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', image1: png.replace('image/png', 'image/jpeg')})
+      ).rejects.toThrow('image1: An image labelled image/jpeg is actually png.');
+      await expect(
+        generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', image1: 'data:image/png;base64,bm90IGFuIGltYWdl'})
+      ).rejects.toThrow('image1: An image could not be read as image/png.');
+    });
+
+    it('rejects an image with too many pixels on a side', async () => {
+      const image3 = await solidPng(8200, 2);
+
+      await expect(generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', image3})).rejects.toThrow(
+        'image3: An image is 8200x2 pixels; the longest side may be at most 8192 pixels.'
+      );
+    });
+  });
+
+  it('records the prompt template versions', async () => {
+    const {promptTemplates} = await generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9'});
+
+    expect(promptTemplates).toEqual([
+      {name: 'ratio-rule', version: 1},
+      {name: 'generate.system', version: 1},
+      {name: 'generate.user', version: 1},
+    ]);
+  });
+
+  it('appends the brand guidelines to the system prompt', async () => {
+    const {promptTemplates} = await generateThumbnailFromPrompt({
+      prompt: 'a cat',
+      aspectRatio: '16:9',
+      brandKit: {
+        primaryColor: '#ff0055',
+        secondaryColor: '#111111',
+        fonts: ['Anton'],
+        tone: ['bold', 'playful'],
+        dos: ['Show the host\'s face'],
+        donts: ['Use red arrows', ' '],
+      },
+    });
+
+    const [call] = callsTo('image');
+    expect(call.system).toMatch(/^You are an expert image generator\./);
+    expect(call.system).toContain(
+      [
+        'BRAND GUIDELINES - everything you create must stay on-brand:',
+        '- Brand colors: primary #ff0055, secondary #111111. Make them the dominant colors of the palette.',
+        '- Typography: any on-image text should look like Anton.',
+        '- Tone: bold, playful.',
+        "- Always: Show the host's face",
+        '- Never: Use red arrows',
+      ].join('\n')
+    );
+    expect(call.system.endsWith('- Never: Use red arrows')).toBe(true);
+    expect(promptTemplates).toContainEqual({name: 'brand.guidelines', version: 1});
+  });
+
+  it('ignores an empty brand kit', async () => {
+    const {promptTemplates} = await generateThumbnailFromPrompt({
+      prompt: 'a cat',
+      aspectRatio: '16:9',
+      brandKit: {fonts: [''], tone: [], dos: [], donts: []},
+    });
+
+    expect(callsTo('image')[0].system).not.toContain('BRAND GUIDELINES');
+    expect(promptTemplates.map(ref => ref.name)).not.toContain('brand.guidelines');
+  });
+
+  it('rejects a brand color that is not a hex code', async () => {
+    await expect(
+      generateThumbnailFromPrompt({
+        prompt: 'a cat',
+        aspectRatio: '16:9',
+        brandKit: {primaryColor: 'red', fonts: [], tone: [], dos: [], donts: []},
+      })
+    ).rejects.toThrow('INVALID_ARGUMENT');
+  });
+
+  it('records the outpainting templates when the image was extended', async () => {
+    imageModel.mockResolvedValueOnce(imageResponse(await solidPng(400, 400)));
+
+    const {dimensions, promptTemplates} = await generateThumbnailFromPrompt({
+      prompt: 'a cat',
+      aspectRatio: '21:9',
+    });
+
+    expect(dimensions.correction).toBe('outpaint');
+    expect(callsTo('image')[1].system).toContain('performing an outpainting task');
+    expect(promptTemplates.map(ref => ref.name)).toContain('outpaint.system');
+  });
+
+  it('forbids rendered text in text-free mode', async () => {
+    await generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', textFree: true});
+
+    expect(callsTo('image')[0].system).toContain('Do NOT render any text');
+  });
+
+  it('crops an image that comes back at the wrong ratio', async () => {
+    const square = await solidPng(400, 400);
+    imageModel.mockResolvedValueOnce(imageResponse(square));
+
+    const {dimensions} = await generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '4:5'});
+
+    expect(dimensions).toMatchObject({
+      width: 320,
+      height: 400,
+      correction: 'crop',
+      originalWidth: 400,
+      originalHeight: 400,
+    });
+  });
+
+  it('throws when the model returns no image', async () => {
+    imageModel.mockResolvedValueOnce(emptyResponse());
+
+    await expect(
+      generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9'})
+    ).rejects.toThrow('Image generation did not return an image.');
+  });
+
+  it('keeps the successful candidates when some fail', async () => {
+    imageModel.mockRejectedValueOnce(new Error('Candidate exploded'));
+
+    const result = await generateThumbnailFromPrompt({
+      prompt: 'a cat',
+      aspectRatio: '16:9',
+      candidateCount: 3,
+    });
+
+    expect(callsTo('image')).toHaveLength(3);
+    expect(result.candidates).toHaveLength(2);
+    expect(result.candidateDimensions).toHaveLength(2);
+    expect(result.thumbnail).toBe(result.candidates[0]);
+  });
+
+  it('throws the first error when every candidate fails', async () => {
+    imageModel.mockRejectedValue(new Error('Model down'));
+
+    await expect(
+      generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', candidateCount: 2})
+    ).rejects.toThrow('Model down');
+  });
+
+  it('reports a safety block as a blocked error', async () => {
+    imageModel.mockResolvedValueOnce(blockedResponse('SAFETY'));
+
+    await expect(
+      generateThumbnailFromPrompt({prompt: 'explosive results', aspectRatio: '16:9'})
+    ).rejects.toThrow('Generation blocked: SAFETY');
+    expect(callsTo('text')).toHaveLength(0);
+  });
+
+  it('rewrites a blocked prompt and retries once when asked', async () => {
+    imageModel.mockResolvedValueOnce(blockedResponse('SAFETY'));
+    textModel.mockResolvedValueOnce(
+      textResponse(JSON.stringify({prompt: 'Dramatic, colorful results'}))
+    );
+
+    const result = await generateThumbnailFromPrompt({
+      prompt: 'explosive results',
+      aspectRatio: '16:9',
+      rewriteOnBlock: true,
+    });
+
+    const [rewrite] = callsTo('text');
+    expect(rewrite.text).toBe(
+      'Blocked prompt: explosive results\n' +
+        'Why it was blocked: The prompt or the generated image was flagged as potentially harmful.'
+    );
+    expect(callsTo('image').map(call => call.text)).toEqual([
+      'User prompt: explosive results',
+      'User prompt: Dramatic, colorful results',
+    ]);
+    expect(result.safetyRewrite).toEqual({
+      prompt: 'Dramatic, colorful results',
+      reason: 'The prompt or the generated image was flagged as potentially harmful.',
+    });
+    expect(result.promptTemplates).toEqual(
+      expect.arrayContaining([
+        {name: 'safety.rewrite-system', version: 1},
+        {name: 'safety.rewrite-user', version: 1},
+      ])
+    );
+  });
+
+  it('rewrites when any candidate was blocked, even if the first failed otherwise', async () => {
+    imageModel
+      .mockRejectedValueOnce(new Error('[503 Service Unavailable]'))
+      .mockResolvedValueOnce(blockedResponse('PROHIBITED_CONTENT'));
+    textModel.mockResolvedValueOnce(textResponse(JSON.stringify({prompt: 'Colorful results'})));
+
+    const result = await generateThumbnailFromPrompt({
+      prompt: 'explosive results',
+      aspectRatio: '16:9',
+      candidateCount: 2,
+      rewriteOnBlock: true,
+    });
+
+    expect(result.candidates).toHaveLength(2);
+    expect(result.safetyRewrite).toEqual({
+      prompt: 'Colorful results',
+      reason: 'The request was judged to contain prohibited content.',
+    });
+  });
+
+  it('reports the block when candidates failed for different reasons', async () => {
+    imageModel
+      .mockRejectedValueOnce(new Error('[503 Service Unavailable]'))
+      .mockResolvedValueOnce(blockedResponse('SAFETY'));
+
+    await expect(
+      generateThumbnailFromPrompt({prompt: 'explosive results', aspectRatio: '16:9', candidateCount: 2})
+    ).rejects.toThrow('Generation blocked: SAFETY');
+  });
+
+  it('fails when the rewritten prompt is blocked too', async () => {
+    imageModel.mockResolvedValue(blockedResponse('SAFETY'));
+    textModel.mockResolvedValueOnce(textResponse(JSON.stringify({prompt: 'Colorful results'})));
+
+    await expect(
+      generateThumbnailFromPrompt({prompt: 'explosive results', aspectRatio: '16:9', rewriteOnBlock: true})
+    ).rejects.toThrow('Generation blocked: SAFETY');
+    expect(callsTo('image')).toHaveLength(2);
+  });
+
+  it('does not rewrite prompts that failed for other reasons', async () => {
+    imageModel.mockRejectedValueOnce(new Error('Model down'));
+
+    await expect(
+      generateThumbnailFromPrompt({prompt: 'a cat', aspectRatio: '16:9', rewriteOnBlock: true})
+    ).rejects.toThrow('Model down');
+    expect(callsTo('text')).toHaveLength(0);
+  });
+
+  it('reports progress while streaming', async () => {
+    const events: string[] = [];
+
+    await generateThumbnailFromPrompt(
+      {prompt: 'a cat', aspectRatio: '9:16', candidateCount: 2},
+      event => events.push(event.message)
+    );
+
+    expect(events[0]).toBe('Generating 2 9:16 thumbnails...');
+    expect(events).toContain('Candidate 2 of 2 finished');
+  });
+});
@@ -2,37 +2,64 @@
 /**
  * @fileOverview This file defines a Genkit flow for generating thumbnails from a text prompt and uploaded images.
  *
- * - generateThumbnailFromPrompt - A function that accepts a prompt and images and returns a generated thumbnail.
+ * - generateThumbnailFromPrompt - A function that accepts a prompt and images and returns one or more generated thumbnail candidates.
  * - GenerateThumbnailFromPromptInput - The input type for the generateThumbnailFromPrompt function.
  * - GenerateThumbnailFromPromptOutput - The return type for the generateThumbnailFromPrompt function.
  */
 
 import {ai} from '@/ai/genkit';
+import {IMAGE_MODEL} from '@/ai/models';
 import {z} from 'genkit';
+import {FlowProgressSchema, type FlowProgress} from '@/ai/schemas/progress';
+import {mapWithConcurrency} from '@/ai/utils/concurrency';
+import {ImageDimensionsSchema, type ImageDimensions} from '@/ai/schemas/dimensions';
+import {enforceAspectRatio} from '@/ai/utils/aspect-ratio';
+import {AspectRatioSchema} from '@/ai/schemas/aspect-ratio';
+import {PromptRecorder} from '@/ai/prompts';
+import {PromptTemplateRefSchema} from '@/ai/schemas/prompt-template';
+import {BrandKitSchema} from '@/ai/schemas/brand-kit';
+import {withBrandGuidelines} from '@/ai/utils/brand-kit';
+import {requireMedia, toFlowError} from '@/ai/errors';
+import {rewriteBlockedPrompt} from '@/ai/utils/safety-rewrite';
+import {ImageDataUriSchema} from '@/ai/schemas/image-data-uri';
+import {validateImageInputs} from '@/ai/utils/image-input';
+
+const MAX_CANDIDATES = 4;
 
 const GenerateThumbnailFromPromptInputSchema = z.object({
   prompt: z.string().describe('A text prompt describing the desired thumbnail design.'),
-  image1: z
-    .string()
+  image1: ImageDataUriSchema
     .describe(
       "First image to include in the thumbnail generation, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     )
     .optional(),
-  image2: z
-    .string()
+  image2: ImageDataUriSchema
     .describe(
       "Second image to include in the thumbnail generation, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     )
     .optional(),
-  image3: z
-    .string()
+  image3: ImageDataUriSchema
     .describe(
       "Third image to include in the thumbnail generation, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     )
     .optional(),
-  aspectRatio: z
-    .enum(['16:9', '9:16', '1:1'])
-    .describe('The desired aspect ratio for the thumbnail.'),
+  aspectRatio: AspectRatioSchema.describe('The desired aspect ratio for the thumbnail.'),
+  candidateCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CANDIDATES)
+    .optional()
+    .describe('How many alternative thumbnails to generate for side-by-side comparison. Defaults to 1.'),
+  textFree: z
+    .boolean()
+    .optional()
+    .describe('Generate a background with no rendered text, leaving room for text overlays added afterwards.'),
+  brandKit: BrandKitSchema.optional().describe('Workspace brand guidelines to follow, if the workspace has a brand kit.'),
+  rewriteOnBlock: z
+    .boolean()
+    .optional()
+    .describe('If the safety filters block the prompt, rewrite it into a policy-compliant version with the text model and retry once.'),
 });
 
 export type GenerateThumbnailFromPromptInput = z.infer<
@@ -45,6 +72,25 @@ const GenerateThumbnailFromPromptOutputSchema = z.object({
     .describe(
       'The generated thumbnail image, as a data URI that must include a MIME type and use Base64 encoding. Expected format: \'data:<mimetype>;base64,<encoded_data>\'.' // escaped characters
     ),
+  candidates: z
+    .array(z.string())
+    .describe(
+      'Every successfully generated candidate as a data URI, starting with `thumbnail`.'
+    ),
+  dimensions: ImageDimensionsSchema.describe('Measured dimensions of `thumbnail`.'),
+  candidateDimensions: z
+    .array(ImageDimensionsSchema)
+    .describe('Measured dimensions of each entry in `candidates`, in the same order.'),
+  promptTemplates: z
+    .array(PromptTemplateRefSchema)
+    .describe('Prompt template versions that produced the thumbnails.'),
+  safetyRewrite: z
+    .object({
+      prompt: z.string().describe('The rewritten prompt that produced the thumbnails.'),
+      reason: z.string().describe('Why the original prompt was blocked.'),
+    })
+    .optional()
+    .describe('Set when the original prompt was blocked and a rewritten prompt was used instead.'),
 });
 
 export type GenerateThumbnailFromPromptOutput = z.infer<
@@ -52,9 +98,13 @@ export type GenerateThumbnailFromPromptOutput = z.infer<
 >;
 
 export async function generateThumbnailFromPrompt(
-  input: GenerateThumbnailFromPromptInput
+  input: GenerateThumbnailFromPromptInput,
+  onProgress?: (event: FlowProgress) => void
 ): Promise<GenerateThumbnailFromPromptOutput> {
-  return generateThumbnailFromPromptFlow(input);
+  if (!onProgress) return generateThumbnailFromPromptFlow(input);
+  const {stream, output} = generateThumbnailFromPromptFlow.stream(input);
+  for await (const event of stream) onProgress(event);
+  return output;
 }
 
 const generateThumbnailFromPromptFlow = ai.defineFlow(
@@ -62,8 +112,11 @@ const generateThumbnailFromPromptFlow = ai.defineFlow(
     name: 'generateThumbnailFromPromptFlow',
     inputSchema: GenerateThumbnailFromPromptInputSchema,
     outputSchema: GenerateThumbnailFromPromptOutputSchema,
+    streamSchema: FlowProgressSchema,
   },
-  async input => {
+  async (input, {sendChunk}) => {
+    await validateImageInputs({image1: input.image1, image2: input.image2, image3: input.image3});
+
     const mediaParts: { media: { url: string } }[] = [];
 
     if (input.image1) {
@@ -76,25 +129,104 @@ const generateThumbnailFromPromptFlow = ai.defineFlow(
       mediaParts.push({ media: { url: input.image3 } });
     }
 
-    const {media} = await ai.generate({
-      model: 'googleai/gemini-2.5-flash-image-preview',
-      system: `You are an expert image generator.
-${input.aspectRatio === '9:16'
-  ? 'You MUST generate an image with an aspect ratio of EXACTLY 9:16 (vertical). Do not add any padding or black bars. Do NOT crop or cut any text or subjects; instead, scale and reposition elements so that all content remains fully inside the 9:16 frame with comfortable safe margins.'
-  : `You MUST generate an image with an aspect ratio of EXACTLY ${input.aspectRatio}. Do not add any padding or black bars. Crop the image to fit the requested aspect ratio if necessary.`}
-`,
-      prompt: [
-        ...mediaParts,
-        {
-          text: `User prompt: ${input.prompt}`,
-        },
-      ],
+    const prompts = new PromptRecorder();
+    const system = withBrandGuidelines(
+      prompts.render('generate.system', {
+        ratioRule: prompts.render('ratio-rule', {aspectRatio: input.aspectRatio}),
+        textFree: input.textFree,
+      }),
+      prompts,
+      input.brandKit
+    );
+
+    const candidateCount = input.candidateCount ?? 1;
+    sendChunk({
+      stage: 'generating',
+      message: `Generating ${candidateCount > 1 ? `${candidateCount} ` : ''}${input.aspectRatio} thumbnail${candidateCount > 1 ? 's' : ''}${mediaParts.length ? ` from ${mediaParts.length} reference image${mediaParts.length > 1 ? 's' : ''}` : ''}...`,
+      completed: 0,
+      total: candidateCount,
     });
 
-    if (!media?.url) {
-      throw new Error('Image generation did not return an image.');
+    // The image model returns a single image per call, so candidates are separate parallel calls.
+    const generateCandidates = async (prompt: string) => {
+      const userPrompt = prompts.render('generate.user', {prompt});
+      let completed = 0;
+      const results = await mapWithConcurrency(
+        Array.from({length: candidateCount}, (_, i) => i),
+        candidateCount,
+        async (i): Promise<{image: string; dimensions: ImageDimensions} | Error> => {
+          try {
+            const response = await ai.generate({
+              model: IMAGE_MODEL,
+              system,
+              prompt: [...mediaParts, {text: userPrompt}],
+            });
+            const image = requireMedia(response, 'Image generation did not return an image.');
+
+            // The model doesn't always honour the requested ratio; verify and correct it.
+            return await enforceAspectRatio(image, input.aspectRatio, {
+              allowOutpaint: true,
+              prompts,
+            });
+          } catch (error) {
+            // With several candidates, one failure should not discard the others.
+            if (candidateCount === 1) throw error;
+            console.error(`Thumbnail candidate ${i + 1} failed:`, error);
+            return error instanceof Error ? error : new Error(String(error));
+          } finally {
+            completed++;
+            if (candidateCount > 1) {
+              sendChunk({
+                stage: 'generating',
+                message: `Candidate ${completed} of ${candidateCount} finished`,
+                completed,
+                total: candidateCount,
+              });
+            }
+          }
+        }
+      );
+
+      const candidates = results.filter(
+        (result): result is {image: string; dimensions: ImageDimensions} => !(result instanceof Error)
+      );
+      if (candidates.length === 0) {
+        // A block is the failure to report: retrying as-is would likely be blocked again.
+        const errors = results.filter((result): result is Error => result instanceof Error);
+        throw errors.find(error => toFlowError(error).code === 'SAFETY_BLOCKED') ??
+          errors[0] ??
+          new Error('Image generation did not return an image.');
+      }
+      return candidates;
+    };
+
+    let candidates: {image: string; dimensions: ImageDimensions}[];
+    let safetyRewrite: GenerateThumbnailFromPromptOutput['safetyRewrite'];
+    try {
+      candidates = await generateCandidates(input.prompt);
+    } catch (error) {
+      const flowError = toFlowError(error);
+      if (!input.rewriteOnBlock || flowError.code !== 'SAFETY_BLOCKED') throw error;
+
+      sendChunk({
+        stage: 'rewriting',
+        message: 'The prompt was blocked by safety filters. Rewriting it and trying again...',
+      });
+      const reason = flowError.reason ?? flowError.message;
+      const rewritten = await rewriteBlockedPrompt(input.prompt, reason, prompts);
+      if (!rewritten) throw error;
+      safetyRewrite = {prompt: rewritten, reason};
+      // One retry only: a rewrite that is blocked again fails with that error.
+      candidates = await generateCandidates(rewritten);
     }
 
-    return {thumbnail: media.url};
+    return {
+      thumbnail: candidates[0].image,
+      candidates: candidates.map(candidate => candidate.image),
+      dimensions: candidates[0].dimensions,
+      candidateDimensions: candidates.map(candidate => candidate.dimensions),
+      promptTemplates: prompts.refs(),
+      safetyRewrite,
+    };
   }
 );
@@ -0,0 +1,125 @@
+import {beforeEach, describe, expect, it} from 'vitest';
+
+import {intelligentFusion, type IntelligentFusionInput} from '@/ai/flows/intelligent-fusion';
+import {ASPECT_RATIO_IDS} from '@/lib/aspect-ratios';
+import {solidPng} from '@/test/fixtures';
+import {callsTo, emptyResponse, imageModel, textModel, textResponse} from '@/test/model-stub';
+
+let images: string[];
+
+beforeEach(async () => {
+  images = [await solidPng(16, 9, '#ff0000'), await solidPng(9, 16, '#00ff00')];
+});
+
+function fuse(overrides: Partial<IntelligentFusionInput> = {}) {
+  return intelligentFusion({
+    images,
+    fusionPrompt: 'Put the cat on the beach',
+    aspectRatio: '16:9',
+    fusionStyle: 'seamless',
+    creativityLevel: 'balanced',
+    ...overrides,
+  });
+}
+
+describe('intelligentFusion', () => {
+  it('analyzes every image with a structured schema, then fuses them', async () => {
+    const result = await fuse();
+
+    const [analysis] = callsTo('text');
+    expect(analysis.media).toEqual(images);
+    expect(analysis.parts).toEqual(['media', 'media', 'text']);
+    expect(analysis.request.output?.schema).toBeDefined();
+    expect(analysis.text).toContain('Analyze these 2 images.');
+
+    const [fusion] = callsTo('image');
+    expect(fusion.media).toEqual(images);
+    expect(fusion.text).toContain('SOURCE IMAGE ANALYSIS:');
+    expect(result.analysis.images.map(image => image.index)).toEqual([0, 1]);
+    expect(result.technicalDetails.fusionTechnique).toBe('seamless');
+  });
+
+  it.each(ASPECT_RATIO_IDS)('includes the %s ratio rule in the fusion system prompt', async aspectRatio => {
+    const {dimensions} = await fuse({aspectRatio});
+
+    const [fusion] = callsTo('image');
+    expect(fusion.system).toMatchSnapshot();
+    expect(fusion.text).toContain(`- Aspect ratio: exactly ${aspectRatio}`);
+    expect(dimensions.requestedAspectRatio).toBe(aspectRatio);
+  });
+
+  it.each([
+    ['seamless', 'Create a seamless blend'],
+    ['collage', 'Arrange the images in an artistic collage layout'],
+    ['overlay', 'Layer the images with creative overlays'],
+    ['blend', 'Blend the images together using advanced mixing techniques'],
+    ['composite', 'Create a professional composite'],
+  ] as const)('uses the %s style instructions', async (fusionStyle, instruction) => {
+    await fuse({fusionStyle});
+
+    expect(callsTo('image')[0].text).toContain(`- Style: ${instruction}`);
+    expect(callsTo('text')[0].text).toContain(`The role it should play in a ${fusionStyle} fusion`);
+  });
+
+  it.each([
+    ['conservative', 'Maintain the original character of each image'],
+    ['balanced', 'Balance preservation of original elements'],
+    ['creative', 'Take creative liberties'],
+    ['experimental', 'Push creative boundaries'],
+  ] as const)('uses the %s creativity instructions', async (creativityLevel, instruction) => {
+    await fuse({creativityLevel});
+
+    expect(callsTo('image')[0].text).toContain(`- Creativity: ${instruction}`);
+  });
+
+  it('applies the brand kit to the fusion but not the analysis', async () => {
+    await fuse({brandKit: {primaryColor: '#ff0055', fonts: [], tone: [], dos: [], donts: []}});
+
+    expect(callsTo('text')[0].system).not.toContain('BRAND GUIDELINES');
+    expect(callsTo('image')[0].system).toContain('- Brand colors: primary #ff0055.');
+  });
+
+  it('names the dominant image', async () => {
+    await fuse({dominantImage: 1});
+
+    expect(callsTo('text')[0].text).toContain('(image 2 is the dominant base composition)');
+    expect(callsTo('image')[0].text).toContain('Use image 2 as the dominant base composition.');
+  });
+
+  it('reports each stage while streaming', async () => {
+    const stages: string[] = [];
+
+    await intelligentFusion(
+      {images, fusionPrompt: 'x', aspectRatio: '1:1', fusionStyle: 'collage', creativityLevel: 'creative'},
+      event => stages.push(event.stage)
+    );
+
+    expect(stages).toEqual(['analyzing', 'analysis', 'fusing']);
+  });
+
+  it('fills in an image the analysis skipped', async () => {
+    textModel.mockResolvedValueOnce(
+      textResponse(
+        JSON.stringify({
+          images: [{index: 0, subject: 'cat', style: 'photo', lighting: 'soft', palette: [], suggestedRole: 'primary-subject'}],
+          combinationStrategy: 'x',
+          challenges: [],
+        })
+      )
+    );
+
+    const result = await fuse();
+
+    expect(result.analysis.images.map(({index, subject}) => ({index, subject}))).toEqual([
+      {index: 0, subject: 'cat'},
+      {index: 1, subject: 'Not analyzed; see the image itself'},
+    ]);
+    expect(callsTo('image')[0].text).toContain('- Image 2 [role: secondary-subject]');
+  });
+
+  it('throws when the fusion returns no image', async () => {
+    imageModel.mockResolvedValueOnce(emptyResponse());
+
+    await expect(fuse()).rejects.toThrow('Intelligent fusion failed to generate image.');
+  });
+});
@@ -9,35 +9,60 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {IMAGE_MODEL, TEXT_MODEL} from '@/ai/models';
 import {z} from 'genkit';
+import {
+  FusionAnalysisSchema,
+  type FusionAnalysis,
+  type ImageAnalysis,
+} from '@/ai/schemas/image-analysis';
+import {FlowProgressSchema, type FlowProgress} from '@/ai/schemas/progress';
+import {ImageDimensionsSchema} from '@/ai/schemas/dimensions';
+import {enforceAspectRatio} from '@/ai/utils/aspect-ratio';
+import {AspectRatioSchema} from '@/ai/schemas/aspect-ratio';
+import {PromptRecorder} from '@/ai/prompts';
+import {PromptTemplateRefSchema} from '@/ai/schemas/prompt-template';
+import {BrandKitSchema} from '@/ai/schemas/brand-kit';
+import {withBrandGuidelines} from '@/ai/utils/brand-kit';
+import {FlowError, requireMedia} from '@/ai/errors';
+import {ImageDataUriSchema} from '@/ai/schemas/image-data-uri';
+import {validateImageInputs} from '@/ai/utils/image-input';
 
 const IntelligentFusionInputSchema = z.object({
-  images: z.array(z.string()).min(2).max(4).describe('Images to fuse together (2-4 images).'),
+  images: z.array(ImageDataUriSchema).min(2).max(4).describe('Images to fuse together (2-4 images).'),
   fusionPrompt: z.string().describe('Description of how to combine the images.'),
-  aspectRatio: z.enum(['16:9', '9:16', '1:1']).describe('Target aspect ratio.'),
+  aspectRatio: AspectRatioSchema.describe('Target aspect ratio.'),
   fusionStyle: z.enum(['seamless', 'collage', 'overlay', 'blend', 'composite']).describe('Fusion technique to use.'),
   dominantImage: z.number().optional().describe('Index of image that should be dominant (0-based).'),
   creativityLevel: z.enum(['conservative', 'balanced', 'creative', 'experimental']).describe('How creative the fusion should be.'),
+  brandKit: BrandKitSchema.optional().describe('Workspace brand guidelines to follow, if the workspace has a brand kit.'),
 });
 
 export type IntelligentFusionInput = z.infer<typeof IntelligentFusionInputSchema>;
 
 const IntelligentFusionOutputSchema = z.object({
   fusedImage: z.string().describe('The fused image as data URI.'),
+  dimensions: ImageDimensionsSchema.describe('Measured dimensions of the fused image.'),
   fusionDescription: z.string().describe('Description of how the images were combined.'),
   technicalDetails: z.object({
     primaryElements: z.array(z.string()).describe('Key elements from each source image.'),
     fusionTechnique: z.string().describe('The technique used for fusion.'),
     aspectRatioHandling: z.string().describe('How aspect ratio was maintained.'),
   }).describe('Technical details about the fusion process.'),
+  analysis: FusionAnalysisSchema.describe('Structured analysis of the source images that guided the fusion.'),
+  promptTemplates: z.array(PromptTemplateRefSchema).describe('Prompt template versions that produced the fusion.'),
 });
 
 export type IntelligentFusionOutput = z.infer<typeof IntelligentFusionOutputSchema>;
 
 export async function intelligentFusion(
-  input: IntelligentFusionInput
+  input: IntelligentFusionInput,
+  onProgress?: (event: FlowProgress) => void
 ): Promise<IntelligentFusionOutput> {
-  return intelligentFusionFlow(input);
+  if (!onProgress) return intelligentFusionFlow(input);
+  const {stream, output} = intelligentFusionFlow.stream(input);
+  for await (const event of stream) onProgress(event);
+  return output;
 }
 
 const intelligentFusionFlow = ai.defineFlow(
@@ -45,114 +70,100 @@ const intelligentFusionFlow = ai.defineFlow(
     name: 'intelligentFusionFlow',
     inputSchema: IntelligentFusionInputSchema,
     outputSchema: IntelligentFusionOutputSchema,
+    streamSchema: FlowProgressSchema,
   },
-  async input => {
-    // Analyze the images first to understand their content
-    const analysisPrompt = `Analyze these ${input.images.length} images and describe:
-1. The main subject/content of each image
-2. The artistic style and visual characteristics
-3. The lighting and color palette
-4. How they could be best combined for a ${input.fusionStyle} fusion
-5. Potential challenges in combining them
+  async (input, {sendChunk}) => {
+    await validateImageInputs({images: input.images});
+
+    const prompts = new PromptRecorder();
+    const vars = {
+      fusionPrompt: input.fusionPrompt,
+      fusionStyle: input.fusionStyle,
+      creativityLevel: input.creativityLevel,
+      dominantImage: input.dominantImage,
+    };
 
-Target fusion goal: ${input.fusionPrompt}
-Creativity level: ${input.creativityLevel}`;
+    sendChunk({ stage: 'analyzing', message: `Analyzing ${input.images.length} source images...` });
 
+    // Analyze the images first to understand their content
     const analysisResponse = await ai.generate({
-      model: 'googleai/gemini-2.5-flash',
-      system: 'You are an expert visual analyst specializing in image composition and fusion techniques. Provide detailed, technical analysis for optimal image combination.',
+      model: TEXT_MODEL,
+      system: prompts.render('fusion.analysis-system', {}),
       prompt: [
         ...input.images.map(url => ({ media: { url } })),
-        { text: analysisPrompt },
+        { text: prompts.render('fusion.analysis', { ...vars, imageCount: input.images.length }) },
       ],
+      output: { schema: FusionAnalysisSchema },
     });
 
-    // Generate fusion instructions based on analysis
-    let fusionInstructions = '';
-    switch (input.fusionStyle) {
-      case 'seamless':
-        fusionInstructions = 'Create a seamless blend where all images flow naturally together with smooth transitions and unified lighting.';
-        break;
-      case 'collage':
-        fusionInstructions = 'Arrange the images in an artistic collage layout with clear boundaries but harmonious composition.';
-        break;
-      case 'overlay':
-        fusionInstructions = 'Layer the images with creative overlays, transparency effects, and depth to create visual interest.';
-        break;
-      case 'blend':
-        fusionInstructions = 'Blend the images together using advanced mixing techniques, creating new visual relationships between elements.';
-        break;
-      case 'composite':
-        fusionInstructions = 'Create a professional composite combining the best elements from each image into a cohesive new design.';
-        break;
-    }
-
-    // Creativity level adjustments
-    let creativityInstructions = '';
-    switch (input.creativityLevel) {
-      case 'conservative':
-        creativityInstructions = 'Maintain the original character of each image while combining them respectfully.';
-        break;
-      case 'balanced':
-        creativityInstructions = 'Balance preservation of original elements with creative new combinations.';
-        break;
-      case 'creative':
-        creativityInstructions = 'Take creative liberties to produce something new and visually striking.';
-        break;
-      case 'experimental':
-        creativityInstructions = 'Push creative boundaries and experiment with unexpected combinations and effects.';
-        break;
-    }
-
-    const dominantInstruction = input.dominantImage !== undefined 
-      ? ` Use image ${input.dominantImage + 1} as the dominant base composition.`
-      : '';
-
-    const fusionPrompt = `${input.fusionPrompt}
-
-FUSION SPECIFICATIONS:
-- Style: ${fusionInstructions}
-- Creativity: ${creativityInstructions}
-- Aspect ratio: exactly ${input.aspectRatio}${dominantInstruction}
-- Ensure all elements work together harmoniously
-- Maintain high visual quality and professional finish
-
-ANALYSIS CONTEXT: ${analysisResponse.text}`;
-
-    const {media} = await ai.generate({
-      model: 'googleai/gemini-2.5-flash-image-preview',
-      system: `You are a master digital artist specializing in intelligent image fusion. You excel at combining multiple images into cohesive, visually stunning compositions using advanced AI-guided techniques.
-
-${input.aspectRatio === '9:16'
-  ? 'Create a vertical 9:16 composition. Ensure all fused elements fit perfectly within the vertical frame with proper spacing and composition.'
-  : `Create a composition with exact aspect ratio ${input.aspectRatio}. Optimize the layout for this specific format.`}
-
-Your expertise includes:
-- Advanced composition techniques
-- Seamless element integration  
-- Professional color harmony
-- Visual flow and hierarchy
-- Technical precision in fusion`,
+    const analysis = normalizeAnalysis(analysisResponse.output, input.images.length);
+    sendChunk({ stage: 'analysis', message: 'Source image analysis complete.', analysis });
+
+    sendChunk({ stage: 'fusing', message: `Fusing images (${input.fusionStyle}, ${input.creativityLevel})...` });
+
+    const response = await ai.generate({
+      model: IMAGE_MODEL,
+      system: withBrandGuidelines(
+        prompts.render('fusion.system', {
+          ratioRule: prompts.render('ratio-rule', { aspectRatio: input.aspectRatio }),
+        }),
+        prompts,
+        input.brandKit
+      ),
       prompt: [
         ...input.images.map(url => ({ media: { url } })),
-        { text: fusionPrompt },
+        // Fusion instructions built from the style, creativity level and analysis
+        { text: prompts.render('fusion.user', { ...vars, aspectRatio: input.aspectRatio, analysis }) },
       ],
     });
 
-    if (!media?.url) {
-      throw new Error('Intelligent fusion failed to generate image.');
-    }
+    const fused = requireMedia(response, 'Intelligent fusion failed to generate image.');
+    const {image, dimensions} = await enforceAspectRatio(fused, input.aspectRatio, {
+      allowOutpaint: true,
+      prompts,
+    });
 
     return {
-      fusedImage: media.url,
-      fusionDescription: `Successfully fused ${input.images.length} images using ${input.fusionStyle} technique with ${input.creativityLevel} creativity level.`,
+      fusedImage: image,
+      dimensions,
+      fusionDescription: `Successfully fused ${input.images.length} images using ${input.fusionStyle} technique with ${input.creativityLevel} creativity level. ${analysis.combinationStrategy}`,
       technicalDetails: {
-        primaryElements: input.images.map((_, i) => `Elements from image ${i + 1}`),
+        primaryElements: analysis.images.map(
+          image => `Image ${image.index + 1} (${image.suggestedRole}): ${image.subject}`
+        ),
         fusionTechnique: input.fusionStyle,
-        aspectRatioHandling: `Optimized for ${input.aspectRatio} format`,
+        aspectRatioHandling:
+          dimensions.correction === 'none'
+            ? `Generated at ${dimensions.width}x${dimensions.height} (${input.aspectRatio})`
+            : `Model returned ${dimensions.originalWidth}x${dimensions.originalHeight}; ${dimensions.correction === 'crop' ? 'cropped' : 'outpainted'} to ${dimensions.width}x${dimensions.height} (${input.aspectRatio})`,
       },
+      analysis,
+      promptTemplates: prompts.refs(),
     };
   }
 );
 
-
+/**
+ * Orders the per-image entries by index, one per source image, so the fusion prompt can
+ * refer to images by position. An image the analysis skipped gets a neutral entry rather
+ * than failing the whole fusion.
+ */
+function normalizeAnalysis(output: FusionAnalysis | null, imageCount: number): FusionAnalysis {
+  if (!output) {
+    throw new FlowError('UPSTREAM_ERROR', 'Image analysis did not return a structured result.');
+  }
+  const images = Array.from({length: imageCount}, (_, index): ImageAnalysis => {
+    const entry = output.images.find(image => image.index === index);
+    if (entry) return entry;
+    console.warn(`Image analysis skipped image ${index + 1}; fusing it without an analysis.`);
+    return {
+      index,
+      subject: 'Not analyzed; see the image itself',
+      palette: [],
+      lighting: 'Not analyzed',
+      style: 'Not analyzed',
+      suggestedRole: 'secondary-subject',
+    };
+  });
+  return {...output, images};
+}
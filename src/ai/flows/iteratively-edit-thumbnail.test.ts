@@ -0,0 +1,109 @@
+import sharp from 'sharp';
+import {describe, expect, it} from 'vitest';
+
+import {iterativelyEditThumbnail} from '@/ai/flows/iteratively-edit-thumbnail';
+import {decodeDataUri} from '@/ai/utils/image-metrics';
+import {ASPECT_RATIO_IDS} from '@/lib/aspect-ratios';
+import {solidPng} from '@/test/fixtures';
+import {callsTo, emptyResponse, imageModel, imageResponse} from '@/test/model-stub';
+
+describe('iterativelyEditThumbnail', () => {
+  it.each(ASPECT_RATIO_IDS)('sends the base image and %s ratio rule', async aspectRatio => {
+    const baseImage = await solidPng(64, 36);
+
+    await iterativelyEditThumbnail({baseImage, prompt: 'make it red', aspectRatio});
+
+    const [call] = callsTo('image');
+    expect(call.system).toMatchSnapshot();
+    expect(call.parts).toEqual(['media', 'text']);
+    expect(call.media).toEqual([baseImage]);
+    expect(call.text).toBe('User edit prompt: make it red');
+  });
+
+  it('applies the brand kit', async () => {
+    await iterativelyEditThumbnail({
+      baseImage: await solidPng(64, 36),
+      prompt: 'make it red',
+      aspectRatio: '16:9',
+      brandKit: {primaryColor: '#ff0055', fonts: [], tone: [], dos: [], donts: []},
+    });
+
+    expect(callsTo('image')[0].system).toContain('- Brand colors: primary #ff0055.');
+  });
+
+  it('throws when the model returns no image', async () => {
+    imageModel.mockResolvedValueOnce(emptyResponse());
+
+    await expect(
+      iterativelyEditThumbnail({baseImage: await solidPng(64, 36), prompt: 'x', aspectRatio: '16:9'})
+    ).rejects.toThrow('Failed to generate or edit thumbnail.');
+  });
+
+  describe('with a mask', () => {
+    /** A white strip `stripWidth` pixels wide on the left of a `color` image. */
+    async function leftStrip(width: number, stripWidth: number, color: string, stripColor = '#ffffff') {
+      const png = await sharp({create: {width, height: 36, channels: 3, background: color}})
+        .composite([
+          {
+            input: {create: {width: stripWidth, height: 36, channels: 3, background: stripColor}},
+            left: 0,
+            top: 0,
+          },
+        ])
+        .png()
+        .toBuffer();
+      return `data:image/png;base64,${png.toString('base64')}`;
+    }
+
+    async function rowPixels(dataUri: string) {
+      const {data, info} = await sharp(decodeDataUri(dataUri).data)
+        .removeAlpha()
+        .raw()
+        .toBuffer({resolveWithObject: true});
+      return (x: number) => [...data.subarray((10 * info.width + x) * 3, (10 * info.width + x) * 3 + 3)];
+    }
+
+    it('sends the base image and mask, then keeps unmasked pixels', async () => {
+      const baseImage = await solidPng(64, 36, '#0000ff');
+      // Left half editable.
+      const mask = await leftStrip(64, 32, '#000000');
+      imageModel.mockResolvedValueOnce(imageResponse(await solidPng(64, 36, '#ff0000')));
+
+      const {editedThumbnail, dimensions} = await iterativelyEditThumbnail({
+        baseImage,
+        mask,
+        prompt: 'make it red',
+        aspectRatio: '16:9',
+      });
+
+      const [call] = callsTo('image');
+      expect(call.system).toContain('apply the requested change ONLY inside the WHITE area');
+      expect(call.parts).toEqual(['media', 'media', 'text']);
+      expect(call.media).toEqual([baseImage, mask]);
+      expect(dimensions).toMatchObject({width: 64, height: 36, correction: 'none'});
+
+      const pixel = await rowPixels(editedThumbnail);
+      expect(pixel(8)).toEqual([255, 0, 0]);
+      expect(pixel(56)).toEqual([0, 0, 255]);
+    });
+
+    it('lines the mask up with an edit returned at a different aspect ratio', async () => {
+      const baseImage = await solidPng(64, 36, '#0000ff');
+      const mask = await leftStrip(64, 32, '#000000');
+      // Twice as wide as the base: red on the left quarter, green elsewhere.
+      imageModel.mockResolvedValueOnce(imageResponse(await leftStrip(128, 32, '#00ff00', '#ff0000')));
+
+      const {editedThumbnail} = await iterativelyEditThumbnail({
+        baseImage,
+        mask,
+        prompt: 'make it red',
+        aspectRatio: '16:9',
+      });
+
+      const pixel = await rowPixels(editedThumbnail);
+      expect(pixel(4)).toEqual([255, 0, 0]);
+      expect(pixel(28)).toEqual([0, 255, 0]);
+      expect(pixel(56)).toEqual([0, 0, 255]);
+    });
+  });
+});
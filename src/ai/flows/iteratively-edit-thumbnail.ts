@@ -10,16 +10,33 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { IMAGE_MODEL } from '@/ai/models';
 import { z } from 'genkit';
+import { compositeMaskedEdit } from '@/ai/utils/mask-compositing';
+import { ImageDimensionsSchema } from '@/ai/schemas/dimensions';
+import { enforceAspectRatio } from '@/ai/utils/aspect-ratio';
+import { AspectRatioSchema } from '@/ai/schemas/aspect-ratio';
+import { PromptRecorder } from '@/ai/prompts';
+import { PromptTemplateRefSchema } from '@/ai/schemas/prompt-template';
+import { BrandKitSchema } from '@/ai/schemas/brand-kit';
+import { withBrandGuidelines } from '@/ai/utils/brand-kit';
+import { requireMedia } from '@/ai/errors';
+import { ImageDataUriSchema } from '@/ai/schemas/image-data-uri';
+import { validateImageInputs } from '@/ai/utils/image-input';
 
 const IterativelyEditThumbnailInputSchema = z.object({
-  baseImage: z
-    .string()
+  baseImage: ImageDataUriSchema
     .describe(
       "The base image to edit, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
   prompt: z.string().describe('The prompt describing the desired edits to the thumbnail.'),
-  aspectRatio: z.enum(['16:9', '9:16', '1:1']).describe('The aspect ratio of the thumbnail.'),
+  aspectRatio: AspectRatioSchema.describe('The aspect ratio of the thumbnail.'),
+  mask: ImageDataUriSchema
+    .optional()
+    .describe(
+      "Optional mask as a data URI, same framing as the base image. White marks the region that may change; everything else is kept pixel-exact from the base image."
+    ),
+  brandKit: BrandKitSchema.optional().describe('Workspace brand guidelines to follow, if the workspace has a brand kit.'),
 });
 export type IterativelyEditThumbnailInput = z.infer<typeof IterativelyEditThumbnailInputSchema>;
 
@@ -27,6 +44,10 @@ const IterativelyEditThumbnailOutputSchema = z.object({
   editedThumbnail: z
     .string()
     .describe("The edited thumbnail as a data URI in base64 format."),
+  dimensions: ImageDimensionsSchema.describe('Measured dimensions of the edited thumbnail.'),
+  promptTemplates: z
+    .array(PromptTemplateRefSchema)
+    .describe('Prompt template versions that produced the edit.'),
 });
 export type IterativelyEditThumbnailOutput = z.infer<typeof IterativelyEditThumbnailOutputSchema>;
 
@@ -41,23 +62,60 @@ const iterativelyEditThumbnailFlow = ai.defineFlow(
     outputSchema: IterativelyEditThumbnailOutputSchema,
   },
   async input => {
-    const { media } = await ai.generate({
-      model: 'googleai/gemini-2.5-flash-image-preview',
-      system: `You are an expert image editor.
-${input.aspectRatio === '9:16'
-  ? 'You MUST edit the image to have an aspect ratio of EXACTLY 9:16 (vertical). Do not add any padding or black bars. Do NOT crop or cut any text or subjects; instead, scale and reposition elements so that all content remains fully inside the 9:16 frame with comfortable safe margins.'
-  : `You MUST edit the image to have an aspect ratio of EXACTLY ${input.aspectRatio}. Do not add any padding or black bars. Crop the image to fit the requested aspect ratio if necessary.`}
-`,
+    await validateImageInputs({ baseImage: input.baseImage, mask: input.mask });
+
+    const prompts = new PromptRecorder();
+    if (input.mask) {
+      // Masked edits keep the base image's framing; only crop if that was already off.
+      const { image, dimensions } = await enforceAspectRatio(
+        await editMaskedRegion(input, input.mask, prompts),
+        input.aspectRatio
+      );
+      return { editedThumbnail: image, dimensions, promptTemplates: prompts.refs() };
+    }
+
+    const response = await ai.generate({
+      model: IMAGE_MODEL,
+      system: withBrandGuidelines(
+        prompts.render('edit.system', {
+          ratioRule: prompts.render('ratio-rule', { aspectRatio: input.aspectRatio }),
+        }),
+        prompts,
+        input.brandKit
+      ),
       prompt: [
         { media: { url: input.baseImage } },
-        { text: `User edit prompt: ${input.prompt}` },
+        { text: prompts.render('edit.user', { prompt: input.prompt }) },
       ],
     });
 
-    if (!media || !media.url) {
-      throw new Error('Failed to generate or edit thumbnail.');
-    }
+    const edited = requireMedia(response, 'Failed to generate or edit thumbnail.');
 
-    return { editedThumbnail: media.url };
+    const { image, dimensions } = await enforceAspectRatio(edited, input.aspectRatio, {
+      allowOutpaint: true,
+      prompts,
+    });
+    return { editedThumbnail: image, dimensions, promptTemplates: prompts.refs() };
   }
 );
+
+async function editMaskedRegion(
+  input: IterativelyEditThumbnailInput,
+  mask: string,
+  prompts: PromptRecorder
+) {
+  const response = await ai.generate({
+    model: IMAGE_MODEL,
+    system: withBrandGuidelines(prompts.render('edit.masked-system', {}), prompts, input.brandKit),
+    prompt: [
+      { media: { url: input.baseImage } },
+      { media: { url: mask } },
+      { text: prompts.render('edit.masked-user', { prompt: input.prompt }) },
+    ],
+  });
+
+  const edited = requireMedia(response, 'Failed to generate or edit thumbnail.');
+
+  // The model may still touch pixels outside the mask; restore them from the original.
+  return compositeMaskedEdit(input.baseImage, edited, mask);
+}
@@ -0,0 +1,167 @@
+import {describe, expect, it} from 'vitest';
+
+import {optimizePrompt} from '@/ai/flows/optimize-prompt';
+import {ASPECT_RATIO_IDS} from '@/lib/aspect-ratios';
+import {solidPng} from '@/test/fixtures';
+import {callsTo, emptyResponse, textModel, textResponse} from '@/test/model-stub';
+
+const structure = {
+  subject: 'A ginger cat leaping',
+  composition: 'Low angle, subject centered',
+  background: 'A neon-lit alley',
+  lighting: 'Rim light from behind',
+  palette: 'Teal and orange',
+  style: 'Cinematic photo',
+  text: '',
+  mood: 'Playful',
+};
+
+describe('optimizePrompt', () => {
+  it.each(ASPECT_RATIO_IDS)('includes the %s ratio rule in the system prompt', async aspectRatio => {
+    await optimizePrompt({prompt: 'a cat', aspectRatio});
+
+    const [call] = callsTo('text');
+    expect(call.system).toMatchSnapshot();
+    expect(call.text).toBe(
+      `User prompt: "a cat"\nAspect ratio: ${aspectRatio}\nNo reference images were provided.`
+    );
+  });
+
+  it('keeps the 9:16 no-crop rule', async () => {
+    await optimizePrompt({prompt: 'a cat', aspectRatio: '9:16'});
+
+    const [call] = callsTo('text');
+    expect(call.system).toContain('EXACTLY 9:16');
+    expect(call.system).toContain('Do NOT crop or cut any text or subjects');
+    expect(call.system).not.toContain('Crop the image to fit');
+  });
+
+  it('sends reference images as media parts before the text', async () => {
+    const image1 = await solidPng(8, 8, '#ff0000');
+    const image3 = await solidPng(8, 8, '#0000ff');
+
+    await optimizePrompt({prompt: 'a cat', aspectRatio: '16:9', image1, image3});
+
+    const [call] = callsTo('text');
+    expect(call.parts).toEqual(['media', 'media', 'text']);
+    expect(call.media).toEqual([image1, image3]);
+    expect(call.text).toContain('The user also provided 2 reference images.');
+  });
+
+  it('returns the model prompt and its field breakdown', async () => {
+    textModel.mockResolvedValueOnce(textResponse(JSON.stringify({prompt: 'A cinematic cat.', structure})));
+
+    await expect(optimizePrompt({prompt: 'a cat', aspectRatio: '1:1'})).resolves.toEqual({
+      optimizedPrompt: 'A cinematic cat.',
+      alternatives: [{label: 'Optimized', prompt: 'A cinematic cat.', structure}],
+      promptTemplates: [
+        {name: 'ratio-rule', version: 1},
+        {name: 'optimize.user', version: 1},
+        {name: 'optimize.system', version: 2},
+      ],
+    });
+    const [call] = callsTo('text');
+    expect(call.system).toContain('**Also break the prompt down**');
+    expect(call.request.output?.schema).toMatchObject({required: ['prompt', 'structure']});
+  });
+
+  it('sends the genre preset as context after the user prompt', async () => {
+    const {promptTemplates} = await optimizePrompt({
+      prompt: 'a cat',
+      aspectRatio: '16:9',
+      genre: {label: 'Gaming', scaffolding: 'A hero character in the foreground.', example: 'A knight facing a dragon.'},
+    });
+
+    const [call] = callsTo('text');
+    expect(call.parts).toEqual(['text', 'text']);
+    expect(call.text).toMatch(/^User prompt: "a cat"\n/);
+    expect(call.text).toContain(
+      'Genre: Gaming. Strong thumbnails in this genre usually have: A hero character in the foreground.\n' +
+        'Example of a strong Gaming thumbnail: A knight facing a dragon.'
+    );
+    expect(promptTemplates).toContainEqual({name: 'optimize.genre', version: 1});
+  });
+
+  it('falls back to a template prompt when the model call fails', async () => {
+    textModel.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+
+    const {optimizedPrompt, promptTemplates} = await optimizePrompt({prompt: 'a cat', aspectRatio: '9:16'});
+
+    expect(promptTemplates).toEqual([{name: 'optimize.fallback', version: 1}]);
+    expect(optimizedPrompt).toMatch(/^Create an eye-catching thumbnail\. Aspect ratio: 9:16\./);
+    expect(optimizedPrompt).toContain('Reflect the following intent: a cat.');
+  });
+
+  it('falls back to a template prompt when the model returns no prompt', async () => {
+    textModel.mockResolvedValueOnce(emptyResponse());
+    const image1 = await solidPng(8, 8);
+
+    const {optimizedPrompt} = await optimizePrompt({prompt: 'a cat', aspectRatio: '1:1', image1});
+
+    expect(optimizedPrompt).toContain('Aspect ratio: 1:1.');
+    expect(optimizedPrompt).toContain('Incorporate the provided reference images appropriately.');
+  });
+
+  describe('with alternatives', () => {
+    const alternatives = [
+      {label: 'Cinematic photo', prompt: 'A moody cinematic photo of a cat.'},
+      {label: 'Bold illustration', prompt: 'A flat, bold illustration of a cat.'},
+      {label: 'Minimal graphic', prompt: 'A minimal graphic cat silhouette.', structure},
+    ];
+
+    it('asks for labelled, distinct directions as structured output', async () => {
+      textModel.mockResolvedValueOnce(textResponse(JSON.stringify({alternatives})));
+
+      const result = await optimizePrompt({prompt: 'a cat', aspectRatio: '9:16', alternatives: 3});
+
+      const [call] = callsTo('text');
+      expect(call.system).toContain('expand it into 3 alternative rich, detailed, and creative prompts');
+      expect(call.system).toContain(
+        '**Incorporate Aspect Ratio**: The image MUST have an aspect ratio of EXACTLY 9:16 (portrait'
+      );
+      expect(call.request.output?.schema).toMatchObject({
+        properties: {alternatives: {minItems: 3}},
+      });
+      expect(result.alternatives).toEqual(alternatives);
+      expect(result.optimizedPrompt).toBe(alternatives[0].prompt);
+      expect(result.promptTemplates.map(ref => ref.name)).toContain('optimize.alternatives-system');
+    });
+
+    it('applies the brand kit', async () => {
+      await optimizePrompt({
+        prompt: 'a cat',
+        aspectRatio: '1:1',
+        alternatives: 2,
+        brandKit: {fonts: [], tone: ['calm'], dos: [], donts: []},
+      });
+
+      expect(callsTo('text')[0].system).toContain('- Tone: calm.');
+    });
+
+    it('returns the offline mock provider\'s alternatives', async () => {
+      const result = await optimizePrompt({prompt: 'a cat', aspectRatio: '1:1', alternatives: 2});
+
+      expect(result.alternatives).toHaveLength(2);
+    });
+
+    it('drops surplus and empty alternatives', async () => {
+      textModel.mockResolvedValueOnce(
+        textResponse(
+          JSON.stringify({alternatives: [{label: 'Empty', prompt: ' '}, ...alternatives]})
+        )
+      );
+
+      const result = await optimizePrompt({prompt: 'a cat', aspectRatio: '1:1', alternatives: 2});
+
+      expect(result.alternatives).toEqual(alternatives.slice(0, 2));
+    });
+
+    it('falls back to a single template prompt when the model call fails', async () => {
+      textModel.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+
+      const result = await optimizePrompt({prompt: 'a cat', aspectRatio: '1:1', alternatives: 3});
+
+      expect(result.alternatives).toEqual([{label: 'Standard', prompt: result.optimizedPrompt}]);
+    });
+  });
+});
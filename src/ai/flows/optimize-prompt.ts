@@ -6,26 +6,63 @@
  * @exports optimizePrompt - A function that takes a user's prompt and other parameters and returns an optimized prompt.
  * @exports OptimizePromptInput - The input type for the optimizePrompt function.
  * @exports OptimizePromptOutput - The output type for the optimizePrompt function.
+ * @exports PromptAlternative - A labelled, stylistically distinct optimized prompt.
  */
 
 import {ai} from '@/ai/genkit';
+import {TEXT_MODEL} from '@/ai/models';
 import {z} from 'genkit';
+import {AspectRatioSchema} from '@/ai/schemas/aspect-ratio';
+import {PromptRecorder, type PromptVars} from '@/ai/prompts';
+import {PromptTemplateRefSchema} from '@/ai/schemas/prompt-template';
+import {StructuredPromptSchema} from '@/ai/schemas/structured-prompt';
+import {BrandKitSchema, type BrandKit} from '@/ai/schemas/brand-kit';
+import {withBrandGuidelines} from '@/ai/utils/brand-kit';
+import {GenreContextSchema} from '@/ai/schemas/genre-context';
+import {ImageDataUriSchema} from '@/ai/schemas/image-data-uri';
+import {validateImageInputs} from '@/ai/utils/image-input';
+
+const MAX_ALTERNATIVES = 4;
+
+const PromptAlternativeSchema = z.object({
+  label: z.string().describe('2-4 words naming the creative direction, e.g. "Cinematic photo".'),
+  prompt: z.string().describe('The optimized prompt for the image generation model.'),
+  structure: StructuredPromptSchema.optional().describe(
+    'The same prompt broken down into editable fields; missing for the fallback prompt.'
+  ),
+});
+export type PromptAlternative = z.infer<typeof PromptAlternativeSchema>;
 
 const OptimizePromptInputSchema = z.object({
   prompt: z.string().describe("The user's original prompt."),
-  aspectRatio: z
-    .enum(['16:9', '9:16', '1:1'])
-    .describe('The desired aspect ratio.'),
-  image1: z.string().optional(),
-  image2: z.string().optional(),
-  image3: z.string().optional(),
+  aspectRatio: AspectRatioSchema.describe('The desired aspect ratio.'),
+  image1: ImageDataUriSchema.optional(),
+  image2: ImageDataUriSchema.optional(),
+  image3: ImageDataUriSchema.optional(),
+  alternatives: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_ALTERNATIVES)
+    .optional()
+    .describe('How many stylistically distinct prompts to write, so the user can pick a direction before generating. Defaults to 1.'),
+  genre: GenreContextSchema.optional().describe(
+    "Genre preset used as extra context; the user's prompt stays the subject."
+  ),
+  brandKit: BrandKitSchema.optional().describe('Workspace brand guidelines to follow, if the workspace has a brand kit.'),
 });
 export type OptimizePromptInput = z.infer<typeof OptimizePromptInputSchema>;
 
 const OptimizePromptOutputSchema = z.object({
   optimizedPrompt: z
     .string()
-    .describe('The optimized prompt for the image generation model.'),
+    .describe('The optimized prompt for the image generation model; the first alternative.'),
+  alternatives: z
+    .array(PromptAlternativeSchema)
+    .describe('Every optimized prompt, starting with `optimizedPrompt`.'),
+  promptTemplates: z
+    .array(PromptTemplateRefSchema)
+    .describe('Prompt template versions that produced the optimized prompt.'),
 });
 export type OptimizePromptOutput = z.infer<typeof OptimizePromptOutputSchema>;
 
@@ -42,58 +79,117 @@ const optimizePromptFlow = ai.defineFlow(
     outputSchema: OptimizePromptOutputSchema,
   },
   async input => {
+    await validateImageInputs({image1: input.image1, image2: input.image2, image3: input.image3});
+
     const imageParts = [input.image1, input.image2, input.image3]
       .filter(Boolean)
       .map(url => ({ media: { url: url! } }));
-    const providedImagesCount = imageParts.length;
-    const assetContext = providedImagesCount
-      ? `The user also provided ${providedImagesCount} reference image${providedImagesCount > 1 ? 's' : ''}. Consider them when composing the scene.`
-      : 'No reference images were provided.';
+    const prompts = new PromptRecorder();
+    const vars = {
+      prompt: input.prompt,
+      aspectRatio: input.aspectRatio,
+      imageCount: imageParts.length,
+    };
 
-    let response;
+    const ratioRule = prompts.render('ratio-rule', {aspectRatio: input.aspectRatio});
+    const userParts: UserPart[] = [...imageParts, {text: prompts.render('optimize.user', vars)}];
+    if (input.genre) {
+      userParts.push({text: prompts.render('optimize.genre', {genre: input.genre})});
+    }
+    const count = input.alternatives ?? 1;
+
+    let alternatives: PromptAlternative[];
     try {
-      const ratioRule =
-        input.aspectRatio === '9:16'
-          ? `The final image MUST have an aspect ratio of exactly 9:16 (vertical). Do not add any padding or black bars. Do NOT crop or cut any text or subjects; instead, scale and reposition elements so that all content remains fully inside the 9:16 frame with comfortable safe margins.`
-          : `The final image MUST have an aspect ratio of exactly ${input.aspectRatio}. Do not add any padding or black bars. Crop the image to fit the requested aspect ratio if necessary.`;
-
-      response = await ai.generate({
-        model: 'googleai/gemini-2.5-flash',
-        system: `You are an expert prompt engineer for a text-to-image model. Your task is to take a user's simple prompt and expand it into a rich, detailed, and creative prompt that will generate a visually stunning and effective thumbnail.
-
-You must follow these rules:
-1.  **Incorporate Aspect Ratio**: ${ratioRule}
-2.  **Describe Composition**: Detail the layout, including subject placement, background elements, and foreground details. Use terms like "rule of thirds," "leading lines," "depth of field," etc.
-3.  **Specify Style**: Define the artistic style. Examples: "hyper-realistic photo," "cinematic 4k," "digital painting," "anime style," "vibrant illustration," "dramatic lighting."
-4.  **Enhance Details**: Add specific details about colors, lighting, textures, and mood. Be descriptive and evocative.
-5.  **Incorporate User Images**: If the user has provided reference images, your prompt should instruct the image model to incorporate them creatively into the final composition.
-6.  **Keep it a single paragraph. Do not use lists or bullet points.**
-7.  **Output only the prompt itself, with no extra text or explanation.**`,
-        prompt: [
-          ...imageParts,
-          { text: `User prompt: "${input.prompt}"\nAspect ratio: ${input.aspectRatio}\n${assetContext}` },
-        ],
-      });
+      alternatives =
+        count > 1
+          ? await writeAlternatives(count, ratioRule, userParts, prompts, input.brandKit)
+          : await writeSinglePrompt(ratioRule, userParts, prompts, input.brandKit);
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error('optimizePrompt: model call failed', error);
-      const fallback = `Create an eye-catching thumbnail. Aspect ratio: ${input.aspectRatio}. Crop to fit with no padding or black bars. Emphasize strong composition (rule of thirds, leading lines), clear subject separation, and dramatic lighting. Reflect the following intent: ${input.prompt}. ${providedImagesCount ? 'Incorporate the provided reference images appropriately.' : ''}`.trim();
-      return { optimizedPrompt: fallback };
+      return fallbackPrompt(vars);
     }
 
-    const finalText = response.text || response.output?.text;
-    if (!finalText) {
-      // Helpful diagnostics for server logs
-      // eslint-disable-next-line no-console
-      console.error('optimizePrompt: empty response from model', {
-        finishReason: (response as any).finishReason,
-        finishMessage: (response as any).finishMessage,
-      });
+    if (alternatives.length === 0) {
       // Fallback: construct a safe optimized prompt so the UX continues
-      const fallback = `Create an eye-catching thumbnail. Aspect ratio: ${input.aspectRatio}. Crop to fit with no padding or black bars. Emphasize strong composition (rule of thirds, leading lines), clear subject separation, and dramatic lighting. Reflect the following intent: ${input.prompt}. ${providedImagesCount ? 'Incorporate the provided reference images appropriately.' : ''}`.trim();
-      return { optimizedPrompt: fallback };
+      return fallbackPrompt(vars);
     }
 
-    return {optimizedPrompt: finalText};
+    return {
+      optimizedPrompt: alternatives[0].prompt,
+      alternatives,
+      promptTemplates: prompts.refs(),
+    };
   }
 );
+
+type UserPart = {media: {url: string}} | {text: string};
+
+async function writeSinglePrompt(
+  ratioRule: string,
+  userParts: UserPart[],
+  prompts: PromptRecorder,
+  brandKit: BrandKit | undefined
+): Promise<PromptAlternative[]> {
+  const response = await ai.generate({
+    model: TEXT_MODEL,
+    system: withBrandGuidelines(prompts.render('optimize.system', {ratioRule}), prompts, brandKit),
+    prompt: userParts,
+    output: {
+      schema: PromptAlternativeSchema.omit({label: true}).required({structure: true}),
+    },
+  });
+
+  const output = response.output;
+  if (!output?.prompt?.trim()) {
+    // Helpful diagnostics for server logs
+    // eslint-disable-next-line no-console
+    console.error('optimizePrompt: empty response from model', {
+      finishReason: response.finishReason,
+      finishMessage: response.finishMessage,
+    });
+    return [];
+  }
+  return [{label: 'Optimized', prompt: output.prompt, structure: output.structure}];
+}
+
+async function writeAlternatives(
+  count: number,
+  ratioRule: string,
+  userParts: UserPart[],
+  prompts: PromptRecorder,
+  brandKit: BrandKit | undefined
+): Promise<PromptAlternative[]> {
+  const {output} = await ai.generate({
+    model: TEXT_MODEL,
+    system: withBrandGuidelines(
+      prompts.render('optimize.alternatives-system', {ratioRule, count}),
+      prompts,
+      brandKit
+    ),
+    prompt: userParts,
+    output: {
+      schema: z.object({
+        alternatives: z
+          .array(PromptAlternativeSchema)
+          .min(count)
+          .describe(`Exactly ${count} alternatives, each in a different creative direction.`),
+      }),
+    },
+  });
+
+  return (output?.alternatives ?? [])
+    .filter(alternative => alternative.prompt.trim())
+    .slice(0, count);
+}
+
+/** A template prompt used when the model fails, so the user can still continue. */
+function fallbackPrompt(vars: PromptVars<'optimize.fallback'>): OptimizePromptOutput {
+  const prompts = new PromptRecorder();
+  const optimizedPrompt = prompts.render('optimize.fallback', vars);
+  return {
+    optimizedPrompt,
+    alternatives: [{label: 'Standard', prompt: optimizedPrompt}],
+    promptTemplates: prompts.refs(),
+  };
+}
@@ -1,9 +1,16 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
 
+import {MODEL_PROVIDER, TEXT_MODEL} from '@/ai/models';
+import {mockProvider} from '@/ai/providers/mock';
+
 export const ai = genkit({
-  plugins: [googleAI({
-    apiKey: process.env.GOOGLE_API_KEY,
-  })],
-  model: 'googleai/gemini-2.5-flash',
+  plugins: [
+    MODEL_PROVIDER === 'mock'
+      ? mockProvider()
+      : googleAI({
+          apiKey: process.env.GOOGLE_API_KEY,
+        }),
+  ],
+  model: TEXT_MODEL,
 });
@@ -0,0 +1,36 @@
+/**
+ * @fileOverview Model selection. Flows reference IMAGE_MODEL and TEXT_MODEL instead of
+ * hard-coded model names, so the provider can be switched by configuration.
+ *
+ * Set AI_PROVIDER to "googleai" (default) or "mock" (offline, deterministic output).
+ * AI_IMAGE_MODEL / AI_TEXT_MODEL override the individual model names.
+ *
+ * @exports MODEL_PROVIDER - The configured provider.
+ * @exports IMAGE_MODEL - Model used for image generation and editing.
+ * @exports TEXT_MODEL - Model used for text and structured output.
+ */
+
+export type ModelProvider = 'googleai' | 'mock';
+
+const PROVIDER_MODELS: Record<ModelProvider, {image: string; text: string}> = {
+  googleai: {
+    image: 'googleai/gemini-2.5-flash-image-preview',
+    text: 'googleai/gemini-2.5-flash',
+  },
+  mock: {
+    image: 'mock/image',
+    text: 'mock/text',
+  },
+};
+
+function resolveProvider(value: string | undefined): ModelProvider {
+  if (!value) return 'googleai';
+  if (Object.hasOwn(PROVIDER_MODELS, value)) return value as ModelProvider;
+  throw new Error(
+    `Unknown AI_PROVIDER "${value}". Expected one of: ${Object.keys(PROVIDER_MODELS).join(', ')}.`
+  );
+}
+
+export const MODEL_PROVIDER = resolveProvider(process.env.AI_PROVIDER);
+export const IMAGE_MODEL = process.env.AI_IMAGE_MODEL || PROVIDER_MODELS[MODEL_PROVIDER].image;
+export const TEXT_MODEL = process.env.AI_TEXT_MODEL || PROVIDER_MODELS[MODEL_PROVIDER].text;
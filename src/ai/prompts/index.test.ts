@@ -0,0 +1,34 @@
+import {describe, expect, it} from 'vitest';
+
+import {PROMPT_TEMPLATES, PromptRecorder, renderPrompt} from '@/ai/prompts';
+
+describe('prompt template registry', () => {
+  it.each(Object.entries(PROMPT_TEMPLATES))('%s has its active version', (_, template) => {
+    expect(template.versions[template.active]).toBeTypeOf('function');
+  });
+
+  it('renders the active version and reports it', () => {
+    const {text, ref} = renderPrompt('generate.user', {prompt: 'a cat'});
+
+    expect(text).toBe('User prompt: a cat');
+    expect(ref).toEqual({name: 'generate.user', version: PROMPT_TEMPLATES['generate.user'].active});
+  });
+
+  it('rejects an unknown version', () => {
+    expect(() => renderPrompt('generate.user', {prompt: 'a cat'}, 999)).toThrow(
+      'Prompt template "generate.user" has no version 999.'
+    );
+  });
+
+  it('records each template once, in first-use order', () => {
+    const prompts = new PromptRecorder();
+    prompts.render('edit.user', {prompt: 'one'});
+    prompts.render('ratio-rule', {aspectRatio: '9:16'});
+    prompts.render('edit.user', {prompt: 'two'});
+
+    expect(prompts.refs()).toEqual([
+      {name: 'edit.user', version: 1},
+      {name: 'ratio-rule', version: 1},
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @fileOverview Registry of every prompt the flows send to a model. Templates are named
+ * and versioned; flows render them through a PromptRecorder and return the versions they
+ * used, which are saved with each generation.
+ *
+ * To change a prompt, add a new version to its template and make it `active`. To roll
+ * back, point `active` at the previous version.
+ *
+ * @exports PROMPT_TEMPLATES - All templates, by name.
+ * @exports renderPrompt - Render the active (or a specific) version of a template.
+ * @exports PromptRecorder - Renders templates and remembers which versions were used.
+ */
+
+import type {PromptTemplate} from '@/ai/prompts/registry';
+import {batchTemplates} from '@/ai/prompts/templates/batch';
+import {brandTemplates} from '@/ai/prompts/templates/brand';
+import {consistencyTemplates} from '@/ai/prompts/templates/consistency';
+import {editTemplates} from '@/ai/prompts/templates/edit';
+import {fusionTemplates} from '@/ai/prompts/templates/fusion';
+import {generateTemplates} from '@/ai/prompts/templates/generate';
+import {optimizeTemplates} from '@/ai/prompts/templates/optimize';
+import {safetyTemplates} from '@/ai/prompts/templates/safety';
+import {sharedTemplates} from '@/ai/prompts/templates/shared';
+import type {PromptTemplateRef} from '@/ai/schemas/prompt-template';
+
+export const PROMPT_TEMPLATES = {
+  ...sharedTemplates,
+  ...optimizeTemplates,
+  ...generateTemplates,
+  ...editTemplates,
+  ...batchTemplates,
+  ...fusionTemplates,
+  ...consistencyTemplates,
+  ...brandTemplates,
+  ...safetyTemplates,
+};
+
+export type PromptName = keyof typeof PROMPT_TEMPLATES;
+
+export type PromptVars<N extends PromptName> =
+  (typeof PROMPT_TEMPLATES)[N] extends PromptTemplate<infer V> ? V : never;
+
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  vars: PromptVars<N>,
+  version?: number
+): {text: string; ref: PromptTemplateRef} {
+  const template = PROMPT_TEMPLATES[name] as PromptTemplate<PromptVars<N>>;
+  const resolved = version ?? template.active;
+  const render = template.versions[resolved];
+  if (!render) {
+    throw new Error(`Prompt template "${name}" has no version ${resolved}.`);
+  }
+  return {text: render(vars), ref: {name, version: resolved}};
+}
+
+export class PromptRecorder {
+  private readonly used = new Map<string, number>();
+
+  render<N extends PromptName>(name: N, vars: PromptVars<N>): string {
+    const {text, ref} = renderPrompt(name, vars);
+    this.used.set(ref.name, ref.version);
+    return text;
+  }
+
+  /** Versions rendered so far, in first-use order. */
+  refs(): PromptTemplateRef[] {
+    return [...this.used].map(([name, version]) => ({name, version}));
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * @fileOverview Building blocks of the prompt template registry.
+ *
+ * @exports defineTemplate - Declare a named template with its versions.
+ * @exports PromptTemplate - A template and every version of it that has shipped.
+ */
+
+export interface PromptTemplate<V> {
+  description: string;
+  /**
+   * Version rendered for new generations. Earlier versions stay in `versions`, so a
+   * change that makes results worse is rolled back by pointing this at the old one.
+   */
+  active: number;
+  versions: Record<number, (vars: V) => string>;
+}
+
+export function defineTemplate<V = Record<string, never>>(
+  template: PromptTemplate<V>
+): PromptTemplate<V> {
+  if (!template.versions[template.active]) {
+    throw new Error(`Prompt template is missing its active version ${template.active}.`);
+  }
+  return template;
+}
@@ -0,0 +1,51 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+
+type ConsistencyMode = 'character' | 'style' | 'theme' | 'none';
+
+const CONSISTENCY_INSTRUCTIONS: Record<ConsistencyMode, string> = {
+  character: ' CRITICAL: Maintain exact character consistency - same facial features, hair, clothing style, and character design as shown in the reference image. The character should be immediately recognizable across all variations.',
+  style: ' CRITICAL: Apply the exact artistic style, color palette, lighting technique, brushwork, and visual treatment from the reference image to create a cohesive series.',
+  theme: ' CRITICAL: Maintain thematic consistency - same mood, color scheme, composition style, and visual hierarchy across all thumbnails in this series.',
+  none: '',
+};
+
+export const batchTemplates = {
+  'batch.system': defineTemplate<{ratioRule: string; consistencyMode: ConsistencyMode}>({
+    description: 'System prompt shared by every thumbnail in a batch.',
+    active: 1,
+    versions: {
+      1: ({ratioRule, consistencyMode}) => `You are an expert thumbnail designer specializing in creating consistent, high-impact visual series. You excel at maintaining visual consistency across multiple designs while ensuring each thumbnail is unique and engaging.
+
+${ratioRule}
+
+Focus on:
+- Visual consistency ${consistencyMode !== 'none' ? `(${consistencyMode} consistency is CRITICAL)` : ''}
+- High contrast and readability
+- Professional design quality
+- Thumbnail-optimized composition
+- Clear visual hierarchy`,
+    },
+  }),
+
+  'batch.item': defineTemplate<{
+    basePrompt: string;
+    prompt: string;
+    /** The mode actually applied: character and style need their reference image. */
+    consistency: ConsistencyMode;
+    aspectRatio: string;
+    platform: string;
+  }>({
+    description: 'User turn for one thumbnail of a batch.',
+    active: 1,
+    versions: {
+      1: ({basePrompt, prompt, consistency, aspectRatio, platform}) => `${basePrompt} ${prompt}${CONSISTENCY_INSTRUCTIONS[consistency]} 
+      
+      TECHNICAL REQUIREMENTS:
+      - Aspect ratio: exactly ${aspectRatio}
+      - Professional thumbnail quality with high visual impact
+      - Clear focal point and readable text elements
+      - Consistent branding and style throughout the series
+      - Optimized for ${platform}`,
+    },
+  }),
+};
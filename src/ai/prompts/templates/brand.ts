@@ -0,0 +1,29 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+import type {BrandKit} from '@/ai/schemas/brand-kit';
+
+const list = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+export const brandTemplates = {
+  'brand.guidelines': defineTemplate<{brandKit: BrandKit}>({
+    description: "Workspace brand guidelines appended to a flow's system prompt.",
+    active: 1,
+    versions: {
+      1: ({brandKit}) => {
+        const colors = [
+          brandKit.primaryColor && `primary ${brandKit.primaryColor}`,
+          brandKit.secondaryColor && `secondary ${brandKit.secondaryColor}`,
+        ].filter(Boolean);
+        const lines = [
+          colors.length &&
+            `- Brand colors: ${colors.join(', ')}. Make them the dominant colors of the palette.`,
+          list(brandKit.fonts).length &&
+            `- Typography: any on-image text should look like ${list(brandKit.fonts).join(' or ')}.`,
+          list(brandKit.tone).length && `- Tone: ${list(brandKit.tone).join(', ')}.`,
+          ...list(brandKit.dos).map(rule => `- Always: ${rule}`),
+          ...list(brandKit.donts).map(rule => `- Never: ${rule}`),
+        ].filter(Boolean);
+        return `BRAND GUIDELINES - everything you create must stay on-brand:\n${lines.join('\n')}`;
+      },
+    },
+  }),
+};
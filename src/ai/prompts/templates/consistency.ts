@@ -0,0 +1,33 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+
+export const consistencyTemplates = {
+  'consistency.judge-system': defineTemplate({
+    description: 'System prompt for the vision consistency judge.',
+    active: 1,
+    versions: {
+      1: () =>
+        'You are a meticulous art director reviewing a thumbnail series for visual consistency. Judge only consistency (character identity, palette, lighting, typography treatment, overall style), not whether each design is good.',
+    },
+  }),
+
+  'consistency.judge': defineTemplate<{
+    labels: number[];
+    referenceKind?: 'character' | 'style';
+    hasReference: boolean;
+  }>({
+    description: 'Asks for a 0-10 consistency score per labelled thumbnail.',
+    active: 1,
+    versions: {
+      1: ({labels, referenceKind, hasReference}) => {
+        const referenceNote = hasReference
+          ? `The FIRST image is the ${referenceKind ?? 'style'} reference; every thumbnail should match it${
+              referenceKind === 'character'
+                ? ' (same face, hair, clothing and character design)'
+                : ' (same palette, lighting and visual treatment)'
+            }. `
+          : '';
+        return `${referenceNote}The following images are thumbnails labelled ${labels.join(', ')}, in that order. Score each thumbnail from 0 (completely off-model) to 10 (perfectly consistent with the series${hasReference ? ' and the reference' : ''}) and return one entry per thumbnail, using its label number as "index".`;
+      },
+    },
+  }),
+};
@@ -0,0 +1,39 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+
+export const editTemplates = {
+  'edit.system': defineTemplate<{ratioRule: string}>({
+    description: 'System prompt for whole-image edits.',
+    active: 1,
+    versions: {
+      1: ({ratioRule}) => `You are an expert image editor.
+${ratioRule}
+`,
+    },
+  }),
+
+  'edit.user': defineTemplate<{prompt: string}>({
+    description: 'User turn for whole-image edits.',
+    active: 1,
+    versions: {
+      1: ({prompt}) => `User edit prompt: ${prompt}`,
+    },
+  }),
+
+  'edit.masked-system': defineTemplate({
+    description: 'System prompt for regional (inpainting) edits with a mask.',
+    active: 1,
+    versions: {
+      1: () => `You are an expert image editor performing a regional (inpainting) edit.
+The first image is the image to edit. The second image is a black-and-white mask of the same framing: apply the requested change ONLY inside the WHITE area. Leave everything in the BLACK area exactly as it is.
+Keep the exact same framing, dimensions and composition as the first image. Do not crop, zoom, pad or reposition anything. Blend the edited region naturally into its surroundings.`,
+    },
+  }),
+
+  'edit.masked-user': defineTemplate<{prompt: string}>({
+    description: 'User turn for regional edits.',
+    active: 1,
+    versions: {
+      1: ({prompt}) => `User edit prompt (apply only inside the white mask area): ${prompt}`,
+    },
+  }),
+};
@@ -0,0 +1,119 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+import type {FusionAnalysis} from '@/ai/schemas/image-analysis';
+
+type FusionStyle = 'seamless' | 'collage' | 'overlay' | 'blend' | 'composite';
+type CreativityLevel = 'conservative' | 'balanced' | 'creative' | 'experimental';
+
+const STYLE_INSTRUCTIONS: Record<FusionStyle, string> = {
+  seamless: 'Create a seamless blend where all images flow naturally together with smooth transitions and unified lighting.',
+  collage: 'Arrange the images in an artistic collage layout with clear boundaries but harmonious composition.',
+  overlay: 'Layer the images with creative overlays, transparency effects, and depth to create visual interest.',
+  blend: 'Blend the images together using advanced mixing techniques, creating new visual relationships between elements.',
+  composite: 'Create a professional composite combining the best elements from each image into a cohesive new design.',
+};
+
+const CREATIVITY_INSTRUCTIONS: Record<CreativityLevel, string> = {
+  conservative: 'Maintain the original character of each image while combining them respectfully.',
+  balanced: 'Balance preservation of original elements with creative new combinations.',
+  creative: 'Take creative liberties to produce something new and visually striking.',
+  experimental: 'Push creative boundaries and experiment with unexpected combinations and effects.',
+};
+
+function formatAnalysis(analysis: FusionAnalysis): string {
+  const perImage = analysis.images
+    .map(
+      image => `- Image ${image.index + 1} [role: ${image.suggestedRole}]
+  Subject: ${image.subject}
+  Style: ${image.style}
+  Lighting: ${image.lighting}
+  Palette: ${image.palette.join(', ')}`
+    )
+    .join('\n');
+  const challenges = analysis.challenges.length
+    ? analysis.challenges.map(challenge => `- ${challenge}`).join('\n')
+    : '- None identified';
+
+  return `SOURCE IMAGE ANALYSIS:
+${perImage}
+
+COMBINATION STRATEGY: ${analysis.combinationStrategy}
+
+CHALLENGES TO RESOLVE:
+${challenges}`;
+}
+
+interface FusionVars {
+  fusionPrompt: string;
+  fusionStyle: FusionStyle;
+  creativityLevel: CreativityLevel;
+  dominantImage?: number;
+}
+
+export const fusionTemplates = {
+  'fusion.analysis-system': defineTemplate({
+    description: 'System prompt for the structured analysis of the source images.',
+    active: 1,
+    versions: {
+      1: () =>
+        'You are an expert visual analyst specializing in image composition and fusion techniques. Provide detailed, technical analysis for optimal image combination.',
+    },
+  }),
+
+  'fusion.analysis': defineTemplate<FusionVars & {imageCount: number}>({
+    description: 'Asks for one analysis entry per source image.',
+    active: 1,
+    versions: {
+      1: ({imageCount, fusionStyle, dominantImage, fusionPrompt, creativityLevel}) => `Analyze these ${imageCount} images. Return exactly one entry per image, in the order given, with "index" set to its 0-based position. For each image describe:
+1. The main subject/content
+2. The artistic style and visual characteristics
+3. The lighting
+4. The dominant color palette
+5. The role it should play in a ${fusionStyle} fusion${dominantImage !== undefined ? ` (image ${dominantImage + 1} is the dominant base composition)` : ''}
+
+Then describe how they could be best combined and the potential challenges in combining them.
+
+Target fusion goal: ${fusionPrompt}
+Creativity level: ${creativityLevel}`,
+    },
+  }),
+
+  'fusion.system': defineTemplate<{ratioRule: string}>({
+    description: 'System prompt for the fusion image generation.',
+    active: 1,
+    versions: {
+      1: ({ratioRule}) => `You are a master digital artist specializing in intelligent image fusion. You excel at combining multiple images into cohesive, visually stunning compositions using advanced AI-guided techniques.
+
+${ratioRule} Optimize the layout for this specific format.
+
+Your expertise includes:
+- Advanced composition techniques
+- Seamless element integration  
+- Professional color harmony
+- Visual flow and hierarchy
+- Technical precision in fusion`,
+    },
+  }),
+
+  'fusion.user': defineTemplate<FusionVars & {aspectRatio: string; analysis: FusionAnalysis}>({
+    description: 'Fusion instructions built from the style, creativity level and image analysis.',
+    active: 1,
+    versions: {
+      1: ({fusionPrompt, fusionStyle, creativityLevel, aspectRatio, dominantImage, analysis}) => {
+        const dominantInstruction =
+          dominantImage !== undefined
+            ? ` Use image ${dominantImage + 1} as the dominant base composition.`
+            : '';
+        return `${fusionPrompt}
+
+FUSION SPECIFICATIONS:
+- Style: ${STYLE_INSTRUCTIONS[fusionStyle]}
+- Creativity: ${CREATIVITY_INSTRUCTIONS[creativityLevel]}
+- Aspect ratio: exactly ${aspectRatio}${dominantInstruction}
+- Ensure all elements work together harmoniously
+- Maintain high visual quality and professional finish
+
+${formatAnalysis(analysis)}`;
+      },
+    },
+  }),
+};
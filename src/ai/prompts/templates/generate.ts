@@ -0,0 +1,24 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+
+export const generateTemplates = {
+  'generate.system': defineTemplate<{ratioRule: string; textFree?: boolean}>({
+    description: 'System prompt for single-thumbnail generation.',
+    active: 1,
+    versions: {
+      1: ({ratioRule, textFree}) => `You are an expert image generator.
+${ratioRule}
+${textFree
+  ? 'Do NOT render any text, letters, numbers, captions, logos or watermarks anywhere in the image, even if the prompt asks for a headline or title. Compose the scene with clean, uncluttered negative space where a headline can be overlaid later.'
+  : ''}
+`,
+    },
+  }),
+
+  'generate.user': defineTemplate<{prompt: string}>({
+    description: 'User turn for single-thumbnail generation.',
+    active: 1,
+    versions: {
+      1: ({prompt}) => `User prompt: ${prompt}`,
+    },
+  }),
+};
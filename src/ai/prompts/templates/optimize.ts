@@ -0,0 +1,102 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+import type {GenreContext} from '@/ai/schemas/genre-context';
+
+interface OptimizeVars {
+  prompt: string;
+  aspectRatio: string;
+  imageCount: number;
+}
+
+/** Rules 1-5, shared by the single and multiple prompt system prompts. */
+function promptRules(ratioRule: string): string {
+  return `1.  **Incorporate Aspect Ratio**: ${ratioRule}
+2.  **Describe Composition**: Detail the layout, including subject placement, background elements, and foreground details. Use terms like "rule of thirds," "leading lines," "depth of field," etc.
+3.  **Specify Style**: Define the artistic style. Examples: "hyper-realistic photo," "cinematic 4k," "digital painting," "anime style," "vibrant illustration," "dramatic lighting."
+4.  **Enhance Details**: Add specific details about colors, lighting, textures, and mood. Be descriptive and evocative.
+5.  **Incorporate User Images**: If the user has provided reference images, your prompt should instruct the image model to incorporate them creatively into the final composition.`;
+}
+
+const STRUCTURE_RULE =
+  '**Also break the prompt down** into its subject, composition, background, lighting, palette, style, on-image text and mood, so each can be edited on its own. The fields must describe the same image as the prompt; leave on-image text empty if the image should have no text.';
+
+export const optimizeTemplates = {
+  'optimize.system': defineTemplate<{ratioRule: string}>({
+    description: 'Expands a short user prompt into a detailed image prompt.',
+    active: 2,
+    versions: {
+      1: ({ratioRule}) => `You are an expert prompt engineer for a text-to-image model. Your task is to take a user's simple prompt and expand it into a rich, detailed, and creative prompt that will generate a visually stunning and effective thumbnail.
+
+You must follow these rules:
+${promptRules(ratioRule)}
+6.  **Keep it a single paragraph. Do not use lists or bullet points.**
+7.  **Output only the prompt itself, with no extra text or explanation.**`,
+      2: ({ratioRule}) => `You are an expert prompt engineer for a text-to-image model. Your task is to take a user's simple prompt and expand it into a rich, detailed, and creative prompt that will generate a visually stunning and effective thumbnail.
+
+You must follow these rules:
+${promptRules(ratioRule)}
+6.  **Keep the prompt a single paragraph. Do not use lists or bullet points.**
+7.  ${STRUCTURE_RULE}`,
+    },
+  }),
+
+  'optimize.alternatives-system': defineTemplate<{ratioRule: string; count: number}>({
+    description: 'Expands a short user prompt into several stylistically distinct, labelled prompts.',
+    active: 2,
+    versions: {
+      1: ({ratioRule, count}) => `You are an expert prompt engineer for a text-to-image model. Your task is to take a user's simple prompt and expand it into ${count} alternative rich, detailed, and creative prompts, each of which will generate a visually stunning and effective thumbnail.
+
+Every alternative must take a clearly different creative direction, for example a cinematic photo, a bold illustration and a minimal graphic design. Pick the directions that suit the user's subject best.
+
+Each alternative must follow these rules:
+${promptRules(ratioRule)}
+6.  **Keep each prompt a single paragraph. Do not use lists or bullet points.**
+7.  **Label each alternative with 2-4 words naming its direction**, e.g. "Cinematic photo".`,
+      2: ({ratioRule, count}) => `You are an expert prompt engineer for a text-to-image model. Your task is to take a user's simple prompt and expand it into ${count} alternative rich, detailed, and creative prompts, each of which will generate a visually stunning and effective thumbnail.
+
+Every alternative must take a clearly different creative direction, for example a cinematic photo, a bold illustration and a minimal graphic design. Pick the directions that suit the user's subject best.
+
+Each alternative must follow these rules:
+${promptRules(ratioRule)}
+6.  **Keep each prompt a single paragraph. Do not use lists or bullet points.**
+7.  **Label each alternative with 2-4 words naming its direction**, e.g. "Cinematic photo".
+8.  ${STRUCTURE_RULE}`,
+    },
+  }),
+
+  'optimize.user': defineTemplate<OptimizeVars>({
+    description: 'The user prompt and reference image context.',
+    active: 1,
+    versions: {
+      1: ({prompt, aspectRatio, imageCount}) => {
+        const assetContext = imageCount
+          ? `The user also provided ${imageCount} reference image${imageCount > 1 ? 's' : ''}. Consider them when composing the scene.`
+          : 'No reference images were provided.';
+        return `User prompt: "${prompt}"\nAspect ratio: ${aspectRatio}\n${assetContext}`;
+      },
+    },
+  }),
+
+  'optimize.genre': defineTemplate<{genre: GenreContext}>({
+    description: 'Genre preset context sent after the user prompt.',
+    active: 1,
+    versions: {
+      1: ({genre}) =>
+        [
+          `Genre: ${genre.label}. Strong thumbnails in this genre usually have: ${genre.scaffolding}`,
+          genre.example && `Example of a strong ${genre.label} thumbnail: ${genre.example}`,
+          "Use the genre as context for style and composition only. The user's prompt stays the subject of the thumbnail; do not copy the example.",
+        ]
+          .filter(Boolean)
+          .join('\n'),
+    },
+  }),
+
+  'optimize.fallback': defineTemplate<OptimizeVars>({
+    description: 'Used in place of the model output when optimization fails, so the user can continue.',
+    active: 1,
+    versions: {
+      1: ({prompt, aspectRatio, imageCount}) =>
+        `Create an eye-catching thumbnail. Aspect ratio: ${aspectRatio}. Crop to fit with no padding or black bars. Emphasize strong composition (rule of thirds, leading lines), clear subject separation, and dramatic lighting. Reflect the following intent: ${prompt}. ${imageCount ? 'Incorporate the provided reference images appropriately.' : ''}`.trim(),
+    },
+  }),
+};
@@ -0,0 +1,26 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+
+export const safetyTemplates = {
+  'safety.rewrite-system': defineTemplate({
+    description: "Rewrites a prompt the image model's safety filters blocked.",
+    active: 1,
+    versions: {
+      1: () => `You are an expert prompt engineer for a text-to-image model. The user's thumbnail prompt was blocked by the model's safety filters, often because of harmless wording that reads as violent, sexual, dangerous or hateful out of context (e.g. "explosive results", "killer deal", "shot on location").
+
+Rewrite the prompt so it complies with content policies while keeping the same subject, composition, style and on-image text wherever possible:
+1.  **Replace only what is likely to trigger the filters**: figurative violence, weapons, gore, nudity, drugs, real people's names and self-harm references. Use neutral, visual wording instead, e.g. "explosive results" becomes "dramatic, eye-catching results with bursts of color".
+2.  **Keep everything else unchanged**, including the aspect ratio and any reference image instructions.
+3.  **If the intent itself is not allowed**, describe the closest harmless thumbnail instead.
+4.  **Output only the rewritten prompt, with no extra text or explanation.**`,
+    },
+  }),
+
+  'safety.rewrite-user': defineTemplate<{prompt: string; reason: string}>({
+    description: 'User turn for rewriting a blocked prompt.',
+    active: 1,
+    versions: {
+      1: ({prompt, reason}) => `Blocked prompt: ${prompt}
+Why it was blocked: ${reason}`,
+    },
+  }),
+};
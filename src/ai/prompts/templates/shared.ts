@@ -0,0 +1,36 @@
+import {defineTemplate} from '@/ai/prompts/registry';
+import {ASPECT_RATIOS, type AspectRatio} from '@/lib/aspect-ratios';
+
+export const sharedTemplates = {
+  'ratio-rule': defineTemplate<{aspectRatio: AspectRatio}>({
+    description: 'Aspect ratio instructions shared by every image-producing system prompt.',
+    active: 1,
+    versions: {
+      1: ({aspectRatio}) => {
+        const spec = ASPECT_RATIOS[aspectRatio];
+        const fit =
+          spec.orientation === 'portrait'
+            ? `Do NOT crop or cut any text or subjects; instead, scale and reposition elements so that all content remains fully inside the ${spec.id} frame with comfortable safe margins.`
+            : 'Crop the image to fit the requested aspect ratio if necessary.';
+        return `The image MUST have an aspect ratio of EXACTLY ${spec.id} (${spec.orientation}, e.g. ${spec.width}x${spec.height} pixels) for ${spec.platform}. Do not add any padding or black bars. ${fit} ${spec.safeMargins}`;
+      },
+    },
+  }),
+
+  'outpaint.system': defineTemplate<{aspectRatio: string}>({
+    description: 'Extends a padded, off-ratio image to fill the requested frame.',
+    active: 1,
+    versions: {
+      1: ({aspectRatio}) =>
+        `You are an expert image editor performing an outpainting task. The image is exactly ${aspectRatio}. Its centre contains the original artwork; the blurred areas around it are placeholders. Replace the blurred areas by naturally extending the scene, matching perspective, lighting and style. Do NOT change, move or rescale the original artwork, and keep the output at exactly ${aspectRatio}.`,
+    },
+  }),
+
+  'outpaint.user': defineTemplate<{aspectRatio: string}>({
+    description: 'User turn sent with the padded image.',
+    active: 1,
+    versions: {
+      1: ({aspectRatio}) => `Extend this image to fill the full ${aspectRatio} frame.`,
+    },
+  }),
+};
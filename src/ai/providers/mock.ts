@@ -0,0 +1,211 @@
+/**
+ * @fileOverview Offline model provider for development and tests. Returns deterministic
+ * synthetic images (the prompt rendered on a colored canvas at the requested aspect ratio)
+ * and canned text or schema-shaped JSON, without network access or an API key.
+ *
+ * Prompts can include "[mock:blocked]" or "[mock:error]" to simulate a safety block or an
+ * upstream failure.
+ *
+ * @exports mockProvider - Genkit plugin registering the "mock/image" and "mock/text" models.
+ * @exports mockImageModel - The image model runner, reusable by test stubs.
+ * @exports mockTextModel - The text model runner, reusable by test stubs.
+ * @exports MOCK_IMAGE_MODEL_SUPPORTS - Capabilities declared for the image model.
+ * @exports MOCK_TEXT_MODEL_SUPPORTS - Capabilities declared for the text model.
+ */
+
+import sharp from 'sharp';
+import type {GenerateRequest, GenerateResponseData, MessageData} from 'genkit';
+import {genkitPlugin} from 'genkit/plugin';
+
+import {ASPECT_RATIO_IDS, ASPECT_RATIOS, type AspectRatio} from '@/lib/aspect-ratios';
+
+/** Longest side of mock images; small enough to keep tests fast. */
+const MAX_SIDE = 512;
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+};
+
+function textOf(messages: MessageData[], role?: MessageData['role']): string {
+  return messages
+    .filter(message => !role || message.role === role)
+    .flatMap(message => message.content.map(part => part.text ?? ''))
+    .join('\n')
+    .trim();
+}
+
+function mediaCount(messages: MessageData[]): number {
+  return messages
+    .filter(message => message.role === 'user')
+    .reduce((count, message) => count + message.content.filter(part => part.media).length, 0);
+}
+
+function hash(value: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+function checkDirectives(text: string): GenerateResponseData | null {
+  if (text.includes('[mock:error]')) {
+    throw new Error('Mock provider: simulated upstream failure (503 Service Unavailable).');
+  }
+  if (text.includes('[mock:blocked]')) {
+    return {
+      message: {role: 'model', content: []},
+      finishReason: 'blocked',
+      finishMessage: 'Mock provider: simulated SAFETY block.',
+    };
+  }
+  return null;
+}
+
+/** Picks the first registered ratio mentioned in the system prompt, else the request text. */
+function requestedAspectRatio(system: string, prompt: string): AspectRatio {
+  for (const text of [system, prompt]) {
+    const match = /\b(\d+:\d+)\b/.exec(text);
+    if (match && (ASPECT_RATIO_IDS as readonly string[]).includes(match[1])) {
+      return match[1] as AspectRatio;
+    }
+  }
+  return '1:1';
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if ((line + ' ' + word).trim().length > width) {
+      if (line) lines.push(line);
+      line = word;
+    } else {
+      line = `${line} ${word}`.trim();
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+async function renderMockImage(prompt: string, aspectRatio: AspectRatio): Promise<string> {
+  const spec = ASPECT_RATIOS[aspectRatio];
+  const scale = MAX_SIDE / Math.max(spec.width, spec.height);
+  const width = Math.round(spec.width * scale);
+  const height = Math.round(spec.height * scale);
+  const hue = hash(prompt) % 360;
+  const fontSize = Math.round(Math.min(width, height) / 14);
+  const lines = wrap(prompt, Math.max(12, Math.floor(width / (fontSize * 0.55)))).slice(0, 8);
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect width="100%" height="100%" fill="hsl(${hue}, 55%, 35%)"/>
+  <text x="${fontSize / 2}" y="${fontSize * 1.2}" font-family="sans-serif" font-size="${fontSize * 0.7}" fill="#ffffffaa">MOCK ${aspectRatio}</text>
+  ${lines
+    .map(
+      (line, i) =>
+        `<text x="50%" y="${height / 2 + (i - (lines.length - 1) / 2) * fontSize * 1.2}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${escapeXml(line)}</text>`
+    )
+    .join('\n  ')}
+</svg>`;
+  const png = await sharp(Buffer.from(svg)).png().toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+/** Builds the smallest value matching a JSON schema, with one array item per input image. */
+function sampleFromSchema(schema: JsonSchema, images: number, name = 'value'): unknown {
+  if (schema.enum?.length) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          sampleFromSchema(value, images, key),
+        ])
+      );
+    case 'array': {
+      const item = schema.items ?? {type: 'string'};
+      const indexed = !!item.properties?.index;
+      const length = Math.max(schema.minItems ?? 1, indexed ? images : 1);
+      return Array.from({length}, (_, i) => {
+        const value = sampleFromSchema(item, images, name);
+        return indexed ? {...(value as object), index: i} : value;
+      });
+    }
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 1;
+      const value = min + (max - min) * 0.75;
+      return type === 'integer' ? Math.round(value) : value;
+    }
+    case 'boolean':
+      return false;
+    default:
+      return `Mock ${name}`;
+  }
+}
+
+/** Image model runner: renders the prompt at the ratio named in the system prompt. */
+export async function mockImageModel(request: GenerateRequest): Promise<GenerateResponseData> {
+  const system = textOf(request.messages, 'system');
+  const prompt = textOf(request.messages, 'user');
+  const directive = checkDirectives(prompt);
+  if (directive) return directive;
+  const url = await renderMockImage(prompt, requestedAspectRatio(system, prompt));
+  return {
+    message: {role: 'model', content: [{media: {url, contentType: 'image/png'}}]},
+    finishReason: 'stop',
+  };
+}
+
+/** Text model runner: schema-shaped JSON when an output schema is requested, else canned text. */
+export async function mockTextModel(request: GenerateRequest): Promise<GenerateResponseData> {
+  const prompt = textOf(request.messages, 'user');
+  const directive = checkDirectives(prompt);
+  if (directive) return directive;
+  const schema = request.output?.schema as JsonSchema | undefined;
+  const text = schema
+    ? JSON.stringify(sampleFromSchema(schema, mediaCount(request.messages)))
+    : `Mock response for: ${prompt.split('\n')[0].slice(0, 200)}`;
+  return {message: {role: 'model', content: [{text}]}, finishReason: 'stop'};
+}
+
+export const MOCK_IMAGE_MODEL_SUPPORTS = {
+  media: true,
+  multiturn: true,
+  systemRole: true,
+  output: ['media'],
+};
+
+export const MOCK_TEXT_MODEL_SUPPORTS = {
+  media: true,
+  multiturn: true,
+  systemRole: true,
+  output: ['text', 'json'],
+  // Receive the JSON schema directly instead of as prompt instructions.
+  constrained: 'all' as const,
+};
+
+export const mockProvider = () =>
+  genkitPlugin('mock', async ai => {
+    ai.defineModel(
+      {name: 'mock/image', label: 'Mock image model', supports: MOCK_IMAGE_MODEL_SUPPORTS},
+      mockImageModel
+    );
+    ai.defineModel(
+      {name: 'mock/text', label: 'Mock text model', supports: MOCK_TEXT_MODEL_SUPPORTS},
+      mockTextModel
+    );
+  });
@@ -0,0 +1,10 @@
+/**
+ * @fileOverview Shared schema for the aspect ratios every flow accepts.
+ *
+ * @exports AspectRatioSchema - One of the ratios in the aspect ratio registry.
+ */
+
+import {z} from 'genkit';
+import {ASPECT_RATIO_IDS} from '@/lib/aspect-ratios';
+
+export const AspectRatioSchema = z.enum(ASPECT_RATIO_IDS);
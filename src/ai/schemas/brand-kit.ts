@@ -0,0 +1,21 @@
+/**
+ * @fileOverview Shared schema for a workspace's brand guidelines, injected into the system
+ * prompt of every flow that writes prompts or produces images.
+ *
+ * @exports BrandKitSchema - Brand colors, fonts, tone words and do/don't rules.
+ */
+
+import {z} from 'genkit';
+
+const HexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+export const BrandKitSchema = z.object({
+  primaryColor: HexColorSchema.optional().describe('Main brand color as a hex code.'),
+  secondaryColor: HexColorSchema.optional().describe('Accent brand color as a hex code.'),
+  fonts: z.array(z.string()).describe('Typefaces on-image text should look like, e.g. "Anton".'),
+  tone: z.array(z.string()).describe('Words describing the brand tone, e.g. "bold", "playful".'),
+  dos: z.array(z.string()).describe('Rules every thumbnail must follow.'),
+  donts: z.array(z.string()).describe('Things a thumbnail must never do.'),
+});
+
+export type BrandKit = z.infer<typeof BrandKitSchema>;
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Shared schema for visual consistency reports on a series of thumbnails.
+ *
+ * @exports ConsistencyReportSchema - Per-item and aggregate consistency scores.
+ */
+
+import {z} from 'genkit';
+
+export const ConsistencyReportSchema = z.object({
+  score: z.number().min(0).max(1).describe('Aggregate consistency across the series (0-1).'),
+  method: z.enum(['perceptual', 'vision']).describe('"perceptual" uses local color-histogram and hash metrics; "vision" also includes a vision-model judging pass.'),
+  items: z.array(z.object({
+    index: z.number().describe('Index of the thumbnail in the batch.'),
+    score: z.number().min(0).max(1).describe('Overall consistency of this thumbnail with the series (0-1).'),
+    peerSimilarity: z.number().min(0).max(1).optional().describe('Mean perceptual similarity to the other thumbnails (0-1).'),
+    referenceSimilarity: z.number().min(0).max(1).optional().describe('Perceptual similarity to the character/style reference (0-1).'),
+    visionScore: z.number().min(0).max(1).optional().describe('Consistency judged by the vision model (0-1).'),
+    notes: z.string().optional().describe('Vision-model explanation of any inconsistencies.'),
+    outlier: z.boolean().describe('Whether this thumbnail looks off-model compared with the rest of the series.'),
+  })).describe('Per-thumbnail consistency, in batch order.'),
+});
+
+export type ConsistencyReport = z.infer<typeof ConsistencyReportSchema>;
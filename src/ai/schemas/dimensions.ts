@@ -0,0 +1,19 @@
+/**
+ * @fileOverview Shared schema describing the measured size of a generated image and any
+ * aspect ratio correction applied to it.
+ *
+ * @exports ImageDimensionsSchema - Measured dimensions and correction of an output image.
+ */
+
+import {z} from 'genkit';
+
+export const ImageDimensionsSchema = z.object({
+  width: z.number().int().describe('Measured width of the returned image in pixels.'),
+  height: z.number().int().describe('Measured height of the returned image in pixels.'),
+  requestedAspectRatio: z.string().describe('The aspect ratio that was requested, e.g. "16:9".'),
+  correction: z.enum(['none', 'crop', 'outpaint']).describe('"crop": the model output was saliency-cropped to the requested ratio; "outpaint": it was extended by the image model (and cropped if still off); "none": it already matched.'),
+  originalWidth: z.number().int().optional().describe('Width of the model output before correction.'),
+  originalHeight: z.number().int().optional().describe('Height of the model output before correction.'),
+});
+
+export type ImageDimensions = z.infer<typeof ImageDimensionsSchema>;
@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Shared schema for the genre preset context given to the prompt optimizer.
+ *
+ * @exports GenreContextSchema - Genre name, prompt scaffolding and an example of a strong result.
+ */
+
+import {z} from 'genkit';
+
+export const GenreContextSchema = z.object({
+  label: z.string().describe('Genre name, e.g. "Tech review".'),
+  scaffolding: z
+    .string()
+    .describe('What thumbnails in this genre usually show and how they are composed.'),
+  example: z.string().optional().describe('Description of a strong thumbnail in this genre.'),
+});
+
+export type GenreContext = z.infer<typeof GenreContextSchema>;
@@ -0,0 +1,34 @@
+/**
+ * @fileOverview Shared schema for structured, per-image visual analysis.
+ *
+ * Flow files are marked 'use server' and may only export async functions, so
+ * schemas that are reused across flows (or embedded in a flow's output) live here.
+ *
+ * @exports ImageAnalysisSchema - Visual breakdown of a single source image.
+ * @exports FusionAnalysisSchema - Analysis of a set of images prepared for fusion.
+ */
+
+import {z} from 'genkit';
+
+export const ImageAnalysisSchema = z.object({
+  index: z.number().int().min(0).describe('0-based index of the analyzed image in the input list.'),
+  subject: z.string().describe('The main subject or content of the image.'),
+  palette: z
+    .array(z.string())
+    .describe('Dominant colors, as hex codes or short color names, most prominent first.'),
+  lighting: z.string().describe('Lighting setup, direction and quality (e.g. "hard key light from left, warm").'),
+  style: z.string().describe('Artistic style and visual treatment (e.g. "cinematic photo", "flat vector").'),
+  suggestedRole: z
+    .enum(['primary-subject', 'secondary-subject', 'background', 'style-reference', 'detail'])
+    .describe('The role this image should play in the fused composition.'),
+});
+
+export type ImageAnalysis = z.infer<typeof ImageAnalysisSchema>;
+
+export const FusionAnalysisSchema = z.object({
+  images: z.array(ImageAnalysisSchema).describe('One analysis entry per source image, in input order.'),
+  combinationStrategy: z.string().describe('How the images should be combined to reach the fusion goal.'),
+  challenges: z.array(z.string()).describe('Potential problems when combining the images (mismatched lighting, perspective, etc.).'),
+});
+
+export type FusionAnalysis = z.infer<typeof FusionAnalysisSchema>;
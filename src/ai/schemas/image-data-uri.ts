@@ -0,0 +1,15 @@
+/**
+ * @fileOverview Shared schema for images sent to a flow. The schema only checks that the
+ * value is a base64 data URI; validateImageInputs checks the type, size and content.
+ *
+ * @exports ImageDataUriSchema - An image as a base64 data URI.
+ */
+
+import {z} from 'genkit';
+
+export const ImageDataUriSchema = z
+  .string()
+  .regex(/^data:[^;,]+(;[^,]*)?;base64,/)
+  .describe(
+    "An image as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'. PNG, JPEG and WebP are accepted."
+  );
@@ -0,0 +1,29 @@
+/**
+ * @fileOverview Shared schema for progress events streamed by long-running flows.
+ *
+ * @exports FlowProgressSchema - A single progress event sent while a flow is running.
+ */
+
+import {z} from 'genkit';
+import {FusionAnalysisSchema} from '@/ai/schemas/image-analysis';
+import {ImageDimensionsSchema} from '@/ai/schemas/dimensions';
+import {FLOW_ERROR_CODES} from '@/lib/flow-errors';
+
+export const FlowProgressSchema = z.object({
+  stage: z.enum(['generating', 'rewriting', 'item', 'scoring', 'analyzing', 'analysis', 'fusing']).describe('The step the flow has reached.'),
+  message: z.string().describe('Human-readable description of the step.'),
+  completed: z.number().optional().describe('Number of finished units of work, for flows with several items.'),
+  total: z.number().optional().describe('Total units of work.'),
+  item: z.object({
+    index: z.number().describe('Index in the batch.'),
+    prompt: z.string().describe('The prompt used for this thumbnail.'),
+    status: z.enum(['ok', 'failed', 'blocked']).describe('Outcome of this item.'),
+    error: z.string().optional().describe('Why the thumbnail was not generated.'),
+    code: z.enum(FLOW_ERROR_CODES).optional().describe('Error code for a failed or blocked thumbnail.'),
+    image: z.string().optional().describe('Generated thumbnail as data URI.'),
+    dimensions: ImageDimensionsSchema.optional().describe('Measured dimensions of the thumbnail.'),
+  }).optional().describe('A batch item that just finished.'),
+  analysis: FusionAnalysisSchema.optional().describe('Source image analysis, once the fusion analysis step is done.'),
+});
+
+export type FlowProgress = z.infer<typeof FlowProgressSchema>;
@@ -0,0 +1,15 @@
+/**
+ * @fileOverview Shared schema identifying a prompt template version, recorded with every
+ * generation so results can be traced back to the prompts that produced them.
+ *
+ * @exports PromptTemplateRefSchema - Name and version of a rendered prompt template.
+ */
+
+import {z} from 'genkit';
+
+export const PromptTemplateRefSchema = z.object({
+  name: z.string().describe('Template name, e.g. "generate.system".'),
+  version: z.number().int().describe('Template version that was rendered.'),
+});
+
+export type PromptTemplateRef = z.infer<typeof PromptTemplateRefSchema>;
@@ -0,0 +1,18 @@
+/**
+ * @fileOverview Shared schema for an optimized prompt broken down into editable fields.
+ *
+ * @exports StructuredPromptSchema - One string per field of PROMPT_FIELDS.
+ */
+
+import {z} from 'genkit';
+
+import {PROMPT_FIELDS, type PromptField} from '@/lib/structured-prompt';
+
+export const StructuredPromptSchema = z.object(
+  Object.fromEntries(
+    PROMPT_FIELDS.map(field => [
+      field.key,
+      z.string().describe(`${field.hint}${field.key === 'text' ? ' Empty if the image should have no text.' : ''}`),
+    ])
+  ) as Record<PromptField, z.ZodString>
+);
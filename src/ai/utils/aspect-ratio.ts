@@ -0,0 +1,166 @@
+/**
+ * @fileOverview Verifies that model output actually has the requested aspect ratio and
+ * deterministically corrects it when it drifts.
+ *
+ * @exports enforceAspectRatio - Measure an image and crop or outpaint it to the requested ratio.
+ * @exports measureImage - Decode an image data URI and return its pixel dimensions.
+ */
+
+import sharp from 'sharp';
+
+import {ai} from '@/ai/genkit';
+import {IMAGE_MODEL} from '@/ai/models';
+import {PromptRecorder} from '@/ai/prompts';
+import type {ImageDimensions} from '@/ai/schemas/dimensions';
+import {withTimeout} from '@/ai/utils/concurrency';
+import {decodeDataUri} from '@/ai/utils/image-metrics';
+import {requireMedia} from '@/ai/errors';
+
+/** Relative ratio error tolerated before an image is corrected (covers rounding, e.g. 1344x768). */
+const TOLERANCE = 0.03;
+/** Above this fraction of lost area, outpainting is tried before cropping. */
+const MAX_CROP_LOSS = 0.25;
+
+export function parseAspectRatio(aspectRatio: string): number {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) throw new Error(`Invalid aspect ratio "${aspectRatio}".`);
+  return w / h;
+}
+
+export async function measureImage(dataUri: string): Promise<{width: number; height: number}> {
+  const {width, height} = await sharp(decodeDataUri(dataUri).data).metadata();
+  if (!width || !height) {
+    throw new Error('Could not read the dimensions of the generated image.');
+  }
+  return {width, height};
+}
+
+/** Largest region of the target ratio that fits inside the image. */
+function cropSize(width: number, height: number, ratio: number) {
+  return width / height > ratio
+    ? {width: Math.round(height * ratio), height}
+    : {width, height: Math.round(width / ratio)};
+}
+
+function matches(width: number, height: number, ratio: number) {
+  return Math.abs(width / height / ratio - 1) <= TOLERANCE;
+}
+
+async function saliencyCrop(dataUri: string, ratio: number) {
+  const {data} = decodeDataUri(dataUri);
+  const {width, height} = await measureImage(dataUri);
+  const target = cropSize(width, height, ratio);
+  const cropped = await sharp(data)
+    .resize(target.width, target.height, {fit: 'cover', position: sharp.strategy.attention})
+    .png()
+    .toBuffer();
+  return {image: `data:image/png;base64,${cropped.toString('base64')}`, ...target};
+}
+
+/**
+ * Centers the image on a canvas of the target ratio with a blurred fill and asks
+ * the image model to paint the new borders, so the original content is kept.
+ */
+async function outpaint(
+  dataUri: string,
+  aspectRatio: string,
+  ratio: number,
+  prompts: PromptRecorder,
+  abortSignal?: AbortSignal
+) {
+  const {data} = decodeDataUri(dataUri);
+  const {width, height} = await measureImage(dataUri);
+  const canvas =
+    width / height > ratio
+      ? {width, height: Math.round(width / ratio)}
+      : {width: Math.round(height * ratio), height};
+  const backdrop = await sharp(data)
+    .resize(canvas.width, canvas.height, {fit: 'cover'})
+    .blur(40)
+    .toBuffer();
+  const padded = await sharp(backdrop)
+    .composite([{input: data, gravity: 'center'}])
+    .png()
+    .toBuffer();
+
+  const response = await ai.generate({
+    model: IMAGE_MODEL,
+    system: prompts.render('outpaint.system', {aspectRatio}),
+    prompt: [
+      {media: {url: `data:image/png;base64,${padded.toString('base64')}`}},
+      {text: prompts.render('outpaint.user', {aspectRatio})},
+    ],
+    abortSignal,
+  });
+  return requireMedia(response, 'Outpainting did not return an image.');
+}
+
+/**
+ * Checks the real dimensions of a generated image against the requested ratio.
+ * Off-ratio images are outpainted when a crop would lose too much of the frame
+ * (if `allowOutpaint` is set), and otherwise saliency-cropped.
+ */
+export async function enforceAspectRatio(
+  image: string,
+  aspectRatio: string,
+  options: {
+    allowOutpaint?: boolean;
+    /** Records the outpainting prompt versions with the caller's other prompts. */
+    prompts?: PromptRecorder;
+    /** Gives up on outpainting (and crops instead) after this long. */
+    outpaintTimeoutMs?: number;
+  } = {}
+): Promise<{image: string; dimensions: ImageDimensions}> {
+  const ratio = parseAspectRatio(aspectRatio);
+  const original = await measureImage(image);
+  if (matches(original.width, original.height, ratio)) {
+    return {
+      image,
+      dimensions: {...original, requestedAspectRatio: aspectRatio, correction: 'none'},
+    };
+  }
+
+  const before = {originalWidth: original.width, originalHeight: original.height};
+  const kept = cropSize(original.width, original.height, ratio);
+  const loss = 1 - (kept.width * kept.height) / (original.width * original.height);
+
+  if (options.allowOutpaint && loss > MAX_CROP_LOSS) {
+    try {
+      const run = (abortSignal?: AbortSignal) =>
+        outpaint(image, aspectRatio, ratio, options.prompts ?? new PromptRecorder(), abortSignal);
+      const extended =
+        options.outpaintTimeoutMs === undefined
+          ? await run()
+          : await withTimeout(run, options.outpaintTimeoutMs, 'Outpainting');
+      const size = await measureImage(extended);
+      const result = matches(size.width, size.height, ratio)
+        ? {image: extended, ...size}
+        : await saliencyCrop(extended, ratio);
+      return {
+        image: result.image,
+        dimensions: {
+          width: result.width,
+          height: result.height,
+          requestedAspectRatio: aspectRatio,
+          correction: 'outpaint',
+          ...before,
+        },
+      };
+    } catch (error) {
+      // A crop is always possible, so outpainting failures are not fatal.
+      console.error('Outpainting failed, falling back to crop:', error);
+    }
+  }
+
+  const cropped = await saliencyCrop(image, ratio);
+  return {
+    image: cropped.image,
+    dimensions: {
+      width: cropped.width,
+      height: cropped.height,
+      requestedAspectRatio: aspectRatio,
+      correction: 'crop',
+      ...before,
+    },
+  };
+}
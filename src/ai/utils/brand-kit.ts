@@ -0,0 +1,30 @@
+/**
+ * @fileOverview Applies a workspace's brand kit to the flows' system prompts.
+ *
+ * @exports hasBrandGuidelines - Whether a brand kit has anything to tell the model.
+ * @exports withBrandGuidelines - Append the brand guidelines to a system prompt.
+ */
+
+import type {PromptRecorder} from '@/ai/prompts';
+import type {BrandKit} from '@/ai/schemas/brand-kit';
+
+export function hasBrandGuidelines(brandKit: BrandKit | undefined): brandKit is BrandKit {
+  if (!brandKit) return false;
+  return (
+    !!brandKit.primaryColor ||
+    !!brandKit.secondaryColor ||
+    [brandKit.fonts, brandKit.tone, brandKit.dos, brandKit.donts].some(items =>
+      items.some(item => item.trim())
+    )
+  );
+}
+
+/** Returns `system` unchanged, without recording the template, when there is no brand kit. */
+export function withBrandGuidelines(
+  system: string,
+  prompts: PromptRecorder,
+  brandKit: BrandKit | undefined
+): string {
+  if (!hasBrandGuidelines(brandKit)) return system;
+  return `${system.trimEnd()}\n\n${prompts.render('brand.guidelines', {brandKit})}`;
+}
@@ -0,0 +1,117 @@
+import {describe, expect, it, vi} from 'vitest';
+
+import {
+  TimeoutError,
+  isTransientError,
+  mapWithConcurrency,
+  withRetry,
+  withTimeout,
+} from '@/ai/utils/concurrency';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('mapWithConcurrency', () => {
+  it('returns results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await new Promise(resolve => setTimeout(resolve, ms));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('keeps at most limit calls in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await tick();
+      inFlight--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('handles an empty list', async () => {
+    const fn = vi.fn();
+
+    await expect(mapWithConcurrency([], 4, fn)).resolves.toEqual([]);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('withTimeout', () => {
+  it('returns the result of a call that finishes in time', async () => {
+    await expect(withTimeout(async () => 'done', 1000)).resolves.toBe('done');
+  });
+
+  it('rejects and aborts a call that runs past the deadline', async () => {
+    let signal: AbortSignal | undefined;
+
+    const result = withTimeout(
+      received => {
+        signal = received;
+        return new Promise(() => {});
+      },
+      10,
+      'Slow call'
+    );
+
+    await expect(result).rejects.toThrow(new TimeoutError('Slow call timed out after 10ms.'));
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient errors until the call succeeds', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      .mockResolvedValueOnce('done');
+
+    await expect(withRetry(fn, {retries: 2, baseDelayMs: 1})).resolves.toBe('done');
+    expect(fn.mock.calls).toEqual([[0], [1]]);
+  });
+
+  it('gives up after the last retry', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('503 Service Unavailable'));
+
+    await expect(withRetry(fn, {retries: 2, baseDelayMs: 1})).rejects.toThrow('503');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('Invalid argument'));
+
+    await expect(withRetry(fn, {retries: 2, baseDelayMs: 1})).rejects.toThrow('Invalid argument');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry past the deadline', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('503 Service Unavailable'));
+
+    await expect(withRetry(fn, {retries: 2, deadline: Date.now()})).rejects.toThrow('503');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isTransientError', () => {
+  it.each([
+    ['a timeout', new TimeoutError('Timed out.')],
+    ['a transient status', Object.assign(new Error('Quota'), {status: 'RESOURCE_EXHAUSTED'})],
+    ['a 429 message', new Error('[429 Too Many Requests]')],
+    ['an overloaded model', new Error('The model is overloaded.')],
+    ['a network failure', new Error('fetch failed')],
+  ])('accepts %s', (_, error) => {
+    expect(isTransientError(error)).toBe(true);
+  });
+
+  it.each([
+    ['a client error', new Error('400 Bad Request')],
+    ['a permanent status', Object.assign(new Error('Bad input'), {status: 'INVALID_ARGUMENT'})],
+    ['a non-error value', '503'],
+  ])('rejects %s', (_, error) => {
+    expect(isTransientError(error)).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @fileOverview Helpers for running model calls in parallel with bounded concurrency,
+ * per-call timeouts and retries with exponential backoff.
+ *
+ * @exports mapWithConcurrency - Map over items with at most `limit` calls in flight, preserving input order.
+ * @exports withTimeout - Run an abortable call and abort it after a deadline.
+ * @exports withRetry - Retry a call with exponential backoff while the error is retryable and time remains.
+ * @exports isTransientError - Whether an error looks like a temporary upstream failure.
+ * @exports TimeoutError - Error thrown by withTimeout when the deadline passes.
+ */
+
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({length: workerCount}, worker));
+  return results;
+}
+
+export async function withTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  label = 'Operation'
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(`${label} timed out after ${ms}ms.`);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt. */
+  retries: number;
+  /** Delay before the first retry; doubles on every subsequent retry. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  /** Time (as from Date.now()) after which no retry starts. */
+  deadline?: number;
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  {
+    retries,
+    baseDelayMs = 500,
+    maxDelayMs = 4000,
+    shouldRetry = isTransientError,
+    deadline = Infinity,
+  }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      // Full jitter keeps parallel items from retrying in lockstep.
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = Math.random() * ceiling;
+      if (attempt >= retries || !shouldRetry(error) || Date.now() + delay >= deadline) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+const TRANSIENT_STATUSES = [
+  'UNAVAILABLE',
+  'RESOURCE_EXHAUSTED',
+  'DEADLINE_EXCEEDED',
+  'INTERNAL',
+];
+
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (!(error instanceof Error)) return false;
+
+  const status = (error as {status?: unknown}).status;
+  if (typeof status === 'string' && TRANSIENT_STATUSES.includes(status)) {
+    return true;
+  }
+  return /\b(429|500|502|503|504)\b|overloaded|unavailable|rate limit|fetch failed|ECONNRESET|ETIMEDOUT/i.test(
+    error.message
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileOverview Validates the images a flow receives before they reach the model: each must
+ * be a base64 data URI of an allowed type, within the size and pixel limits, whose bytes
+ * actually decode as the declared type.
+ *
+ * @exports validateImageInputs - Check every image input of a flow, throwing INVALID_INPUT for the first bad one.
+ */
+
+import sharp from 'sharp';
+
+import {FlowError} from '@/ai/errors';
+import {
+  ALLOWED_IMAGE_TYPES,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGE_DIMENSION,
+  isAllowedImageType,
+  type AllowedImageType,
+} from '@/lib/image-limits';
+import {formatBytes} from '@/lib/export-image';
+
+const DATA_URI_HEADER = /^data:([^;,]+)(?:;[^,]*)?;base64,/;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/** The format sharp reports for each allowed MIME type. */
+const SHARP_FORMATS: Record<AllowedImageType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp',
+};
+
+function invalid(field: string, problem: string): FlowError {
+  const message = `${field}: ${problem}`;
+  return new FlowError('INVALID_INPUT', message, {reason: message});
+}
+
+async function validateImage(field: string, dataUri: string): Promise<void> {
+  const header = DATA_URI_HEADER.exec(dataUri);
+  if (!header) {
+    throw invalid(field, 'An image was not sent as a base64 data URI.');
+  }
+  const mimeType = header[1].toLowerCase();
+  if (!isAllowedImageType(mimeType)) {
+    const allowed = ALLOWED_IMAGE_TYPES.map(type => type.replace('image/', '').toUpperCase());
+    throw invalid(field, `${mimeType} images are not supported. Use ${allowed.join(', ')}.`);
+  }
+
+  // Check the size before decoding, so an oversized upload is never held twice in memory.
+  const encoded = dataUri.slice(header[0].length);
+  const size = Math.floor((encoded.length * 3) / 4);
+  if (size > MAX_IMAGE_BYTES) {
+    throw invalid(
+      field,
+      `An image is ${formatBytes(size)}, over the ${formatBytes(MAX_IMAGE_BYTES)} limit. Resize or compress it and try again.`
+    );
+  }
+  if (!BASE64.test(encoded)) {
+    throw invalid(field, 'An image is not valid base64 data.');
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(Buffer.from(encoded, 'base64')).metadata();
+  } catch {
+    throw invalid(field, `An image could not be read as ${mimeType}. It may be corrupted.`);
+  }
+  if (metadata.format !== SHARP_FORMATS[mimeType]) {
+    throw invalid(field, `An image labelled ${mimeType} is actually ${metadata.format}.`);
+  }
+  const {width = 0, height = 0} = metadata;
+  if (Math.max(width, height) > MAX_IMAGE_DIMENSION) {
+    throw invalid(
+      field,
+      `An image is ${width}x${height} pixels; the longest side may be at most ${MAX_IMAGE_DIMENSION} pixels.`
+    );
+  }
+}
+
+/** Validates one image at a time, so only one is decoded in memory at once. */
+export async function validateImageInputs(
+  inputs: Record<string, string | string[] | undefined>
+): Promise<void> {
+  for (const [field, value] of Object.entries(inputs)) {
+    if (Array.isArray(value)) {
+      for (const [i, dataUri] of value.entries()) {
+        await validateImage(`${field}[${i}]`, dataUri);
+      }
+    } else if (value) {
+      await validateImage(field, value);
+    }
+  }
+}
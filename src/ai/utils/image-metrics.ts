@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Local perceptual image metrics used to compare generated thumbnails
+ * without another model call.
+ *
+ * @exports computeImageSignature - Color histogram and difference hash of a data URI image.
+ * @exports compareSignatures - Similarity (0-1) between two image signatures.
+ * @exports decodeDataUri - Decode a base64 data URI into its MIME type and bytes.
+ */
+
+import sharp from 'sharp';
+
+import {FlowError} from '@/ai/errors';
+
+/** Bins per RGB channel; the histogram has BINS^3 buckets. */
+const BINS = 4;
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** Color distribution matters more than layout when judging a series' look. */
+const COLOR_WEIGHT = 0.7;
+const STRUCTURE_WEIGHT = 1 - COLOR_WEIGHT;
+
+export interface ImageSignature {
+  /** Normalized RGB histogram; sums to 1. */
+  histogram: number[];
+  /** 64-bit difference hash, one boolean per bit. */
+  hash: boolean[];
+}
+
+export function decodeDataUri(dataUri: string): {mimeType: string; data: Buffer} {
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,([\s\S]*)$/.exec(dataUri);
+  if (!match) {
+    throw new FlowError('INVALID_INPUT', 'Expected a base64-encoded data URI.');
+  }
+  return {mimeType: match[1], data: Buffer.from(match[2], 'base64')};
+}
+
+export async function computeImageSignature(dataUri: string): Promise<ImageSignature> {
+  const {data} = decodeDataUri(dataUri);
+
+  const [colors, gray] = await Promise.all([
+    sharp(data).removeAlpha().resize(32, 32, {fit: 'fill'}).raw().toBuffer(),
+    sharp(data).grayscale().resize(HASH_WIDTH, HASH_HEIGHT, {fit: 'fill'}).raw().toBuffer(),
+  ]);
+
+  const histogram = new Array<number>(BINS ** 3).fill(0);
+  const pixelCount = colors.length / 3;
+  for (let i = 0; i < colors.length; i += 3) {
+    const r = Math.floor((colors[i] * BINS) / 256);
+    const g = Math.floor((colors[i + 1] * BINS) / 256);
+    const b = Math.floor((colors[i + 2] * BINS) / 256);
+    histogram[r * BINS * BINS + g * BINS + b] += 1 / pixelCount;
+  }
+
+  const hash: boolean[] = [];
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const offset = y * HASH_WIDTH + x;
+      hash.push(gray[offset] > gray[offset + 1]);
+    }
+  }
+
+  return {histogram, hash};
+}
+
+export function compareSignatures(a: ImageSignature, b: ImageSignature): number {
+  // Histogram intersection: 1 when the color distributions are identical.
+  const color = a.histogram.reduce((sum, value, i) => sum + Math.min(value, b.histogram[i]), 0);
+  const differingBits = a.hash.reduce((count, bit, i) => count + (bit === b.hash[i] ? 0 : 1), 0);
+  const structure = 1 - differingBits / a.hash.length;
+  return COLOR_WEIGHT * color + STRUCTURE_WEIGHT * structure;
+}
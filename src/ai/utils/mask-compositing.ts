@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Server-side compositing for mask-based (inpainting) edits, so that only
+ * the masked region of an image can change.
+ *
+ * @exports compositeMaskedEdit - Merge an edited image into the original through a mask.
+ */
+
+import sharp from 'sharp';
+
+import {decodeDataUri} from '@/ai/utils/image-metrics';
+
+/** Mask luminance at or above this counts as editable. */
+const MASK_THRESHOLD = 128;
+
+/**
+ * Returns the original image with the edited image's pixels pasted in where the
+ * mask is white. Everything outside the mask is copied byte-for-byte from the
+ * original. The edited image and the mask are both stretched to the original's
+ * dimensions, so the mask lines up with the edit even when the model returns a
+ * different aspect ratio.
+ */
+export async function compositeMaskedEdit(
+  original: string,
+  edited: string,
+  mask: string
+): Promise<string> {
+  const base = decodeDataUri(original).data;
+  const {width, height} = await sharp(base).metadata();
+  if (!width || !height) {
+    throw new Error('Could not read the dimensions of the original image.');
+  }
+
+  const [editedPixels, alpha] = await Promise.all([
+    sharp(decodeDataUri(edited).data)
+      .resize(width, height, {fit: 'fill'})
+      .removeAlpha()
+      .raw()
+      .toBuffer(),
+    sharp(decodeDataUri(mask).data)
+      .resize(width, height, {fit: 'fill'})
+      .flatten({background: '#000000'})
+      .grayscale()
+      .threshold(MASK_THRESHOLD)
+      .extractChannel(0)
+      .raw()
+      .toBuffer(),
+  ]);
+
+  const patch = await sharp(editedPixels, {raw: {width, height, channels: 3}})
+    .joinChannel(alpha, {raw: {width, height, channels: 1}})
+    .png()
+    .toBuffer();
+
+  const composited = await sharp(base)
+    .composite([{input: patch}])
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${composited.toString('base64')}`;
+}
@@ -0,0 +1,41 @@
+/**
+ * @fileOverview Rewrites a prompt that the image model's safety filters blocked into a
+ * policy-compliant version with the same intent, so the generation can be retried.
+ *
+ * @exports rewriteBlockedPrompt - Ask the text model for a compliant version of a blocked prompt.
+ */
+
+import {z} from 'genkit';
+
+import {ai} from '@/ai/genkit';
+import {TEXT_MODEL} from '@/ai/models';
+import type {PromptRecorder} from '@/ai/prompts';
+
+/** Returns null when the text model gives no usable rewrite. */
+export async function rewriteBlockedPrompt(
+  prompt: string,
+  reason: string,
+  prompts: PromptRecorder
+): Promise<string | null> {
+  const response = await ai.generate({
+    model: TEXT_MODEL,
+    system: prompts.render('safety.rewrite-system', {}),
+    prompt: prompts.render('safety.rewrite-user', {prompt, reason}),
+    output: {
+      schema: z.object({
+        prompt: z.string().describe('The rewritten, policy-compliant prompt.'),
+      }),
+    },
+  });
+
+  const rewritten = response.output?.prompt?.trim();
+  if (!rewritten || rewritten === prompt.trim()) {
+    // eslint-disable-next-line no-console
+    console.error('rewriteBlockedPrompt: no usable rewrite', {
+      finishReason: response.finishReason,
+      finishMessage: response.finishMessage,
+    });
+    return null;
+  }
+  return rewritten;
+}
@@ -0,0 +1,213 @@
+import {beforeEach, describe, expect, it} from 'vitest';
+
+import {
+  batchGenerateAction,
+  editThumbnailAction,
+  evaluateConsistencyAction,
+  generateThumbnailAction,
+  intelligentFusionAction,
+  optimizePromptAction,
+} from '@/app/actions';
+import {solidPng} from '@/test/fixtures';
+import {blockedResponse, emptyResponse, imageModel, textModel, textResponse} from '@/test/model-stub';
+
+let image: string;
+
+beforeEach(async () => {
+  image = await solidPng(64, 36);
+});
+
+describe('server actions', () => {
+  describe('optimizePromptAction', () => {
+    it('returns the optimized prompt', async () => {
+      const structure = {
+        subject: 'A cat',
+        composition: '',
+        background: '',
+        lighting: '',
+        palette: '',
+        style: '',
+        text: '',
+        mood: '',
+      };
+      textModel.mockResolvedValueOnce(textResponse(JSON.stringify({prompt: 'Better prompt', structure})));
+
+      await expect(optimizePromptAction({prompt: 'a cat', aspectRatio: '16:9'})).resolves.toEqual({
+        success: true,
+        optimizedPrompt: 'Better prompt',
+        alternatives: [{label: 'Optimized', prompt: 'Better prompt', structure}],
+        promptTemplates: expect.arrayContaining([{name: 'optimize.system', version: 2}]),
+      });
+    });
+
+    it('maps invalid input to an error result', async () => {
+      const result = await optimizePromptAction({prompt: 'a cat', aspectRatio: '5:4' as never});
+
+      expect(result).toMatchObject({
+        success: false,
+        error: expect.stringContaining('INVALID_ARGUMENT'),
+        code: 'INVALID_INPUT',
+        retryable: false,
+      });
+    });
+  });
+
+  describe('generateThumbnailAction', () => {
+    it('returns the thumbnail, candidates and dimensions', async () => {
+      const result = await generateThumbnailAction({prompt: 'a cat', aspectRatio: '16:9'});
+
+      expect(result).toMatchObject({
+        success: true,
+        thumbnail: expect.stringMatching(/^data:image\/png;base64,/),
+        candidates: [expect.any(String)],
+        dimensions: {requestedAspectRatio: '16:9', correction: 'none'},
+      });
+    });
+
+    it('maps a model failure to an error result', async () => {
+      imageModel.mockRejectedValueOnce(new Error('Quota exceeded'));
+
+      await expect(generateThumbnailAction({prompt: 'a cat', aspectRatio: '16:9'})).resolves.toEqual({
+        success: false,
+        error: 'Quota exceeded',
+        code: 'RATE_LIMITED',
+        retryable: true,
+      });
+    });
+
+    it('reports a safety rewrite', async () => {
+      imageModel.mockResolvedValueOnce(blockedResponse('SAFETY'));
+      textModel.mockResolvedValueOnce(textResponse(JSON.stringify({prompt: 'Colorful results'})));
+
+      const result = await generateThumbnailAction({
+        prompt: 'explosive results',
+        aspectRatio: '16:9',
+        rewriteOnBlock: true,
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        candidateDimensions: [expect.objectContaining({requestedAspectRatio: '16:9'})],
+        safetyRewrite: {prompt: 'Colorful results', reason: expect.any(String)},
+      });
+    });
+
+    it('explains a safety block', async () => {
+      imageModel.mockResolvedValueOnce(blockedResponse('SAFETY'));
+
+      await expect(generateThumbnailAction({prompt: 'a cat', aspectRatio: '16:9'})).resolves.toEqual({
+        success: false,
+        error: 'FAILED_PRECONDITION: Generation blocked: SAFETY',
+        code: 'SAFETY_BLOCKED',
+        retryable: false,
+        reason: 'The prompt or the generated image was flagged as potentially harmful.',
+      });
+    });
+  });
+
+  describe('editThumbnailAction', () => {
+    it('returns the edited thumbnail', async () => {
+      const result = await editThumbnailAction({baseImage: image, prompt: 'x', aspectRatio: '16:9'});
+
+      expect(result).toMatchObject({success: true, thumbnail: expect.any(String), dimensions: expect.any(Object)});
+    });
+
+    it('maps an empty response to an error result', async () => {
+      imageModel.mockResolvedValueOnce(emptyResponse());
+
+      await expect(
+        editThumbnailAction({baseImage: image, prompt: 'x', aspectRatio: '16:9'})
+      ).resolves.toEqual({
+        success: false,
+        error: 'Failed to generate or edit thumbnail.',
+        code: 'EMPTY_MEDIA',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('batchGenerateAction', () => {
+    it('succeeds with per-item failures', async () => {
+      imageModel.mockRejectedValueOnce(new Error('Invalid argument'));
+
+      const result = await batchGenerateAction({
+        prompts: ['one'],
+        basePrompt: '',
+        aspectRatio: '1:1',
+        consistencyMode: 'none',
+        consistencyCheck: 'none',
+        maxRetries: 0,
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        thumbnails: [],
+        results: [{index: 0, status: 'failed', error: 'Invalid argument'}],
+      });
+    });
+
+    it('maps invalid input to an error result', async () => {
+      const result = await batchGenerateAction({
+        prompts: ['one'],
+        basePrompt: '',
+        aspectRatio: '1:1',
+        consistencyMode: 'none',
+        concurrency: 0,
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        error: expect.stringContaining('INVALID_ARGUMENT'),
+        code: 'INVALID_INPUT',
+        retryable: false,
+      });
+    });
+  });
+
+  describe('intelligentFusionAction', () => {
+    const input = () => ({
+      images: [image, image],
+      fusionPrompt: 'x',
+      aspectRatio: '16:9' as const,
+      fusionStyle: 'blend' as const,
+      creativityLevel: 'balanced' as const,
+    });
+
+    it('returns the fused image and analysis', async () => {
+      const result = await intelligentFusionAction(input());
+
+      expect(result).toMatchObject({success: true, fusedImage: expect.any(String), analysis: expect.any(Object)});
+    });
+
+    it('maps a failed analysis to an error result', async () => {
+      textModel.mockRejectedValueOnce(new Error('Model timed out'));
+
+      await expect(intelligentFusionAction(input())).resolves.toEqual({
+        success: false,
+        error: 'Model timed out',
+        code: 'MODEL_TIMEOUT',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('evaluateConsistencyAction', () => {
+    it('returns the consistency report', async () => {
+      const result = await evaluateConsistencyAction({thumbnails: [{index: 0, image}]});
+
+      expect(result).toMatchObject({success: true, consistency: {score: 1, method: 'perceptual'}});
+    });
+
+    it('maps an undecodable image to an error result', async () => {
+      await expect(
+        evaluateConsistencyAction({thumbnails: [{index: 0, image: 'data:image/png;base64,bm90IGFuIGltYWdl'}]})
+      ).resolves.toEqual({
+        success: false,
+        error: 'thumbnails[0]: An image could not be read as image/png. It may be corrupted.',
+        code: 'INVALID_INPUT',
+        retryable: false,
+        reason: 'thumbnails[0]: An image could not be read as image/png. It may be corrupted.',
+      });
+    });
+  });
+});
@@ -20,14 +20,24 @@ import {
   intelligentFusion,
   type IntelligentFusionInput,
 } from '@/ai/flows/intelligent-fusion';
+import {
+  evaluateConsistency,
+  type EvaluateConsistencyInput,
+} from '@/ai/flows/evaluate-consistency';
+import {flowFailure} from '@/ai/errors';
 
 export async function optimizePromptAction(input: OptimizePromptInput) {
   try {
     const result = await optimizePrompt(input);
-    return {success: true as const, optimizedPrompt: result.optimizedPrompt};
+    return {
+      success: true as const,
+      optimizedPrompt: result.optimizedPrompt,
+      alternatives: result.alternatives,
+      promptTemplates: result.promptTemplates,
+    };
   } catch (error) {
     console.error('Error optimizing prompt:', error);
-    return {success: false as const, error: (error as Error).message};
+    return flowFailure(error);
   }
 }
 
@@ -36,10 +46,11 @@ export async function generateThumbnailAction(
 ) {
   try {
     const result = await generateThumbnailFromPrompt(input);
-    return {success: true as const, thumbnail: result.thumbnail};
+    // The same fields the streaming route returns, including any safety rewrite.
+    return {success: true as const, ...result};
   } catch (error) {
     console.error('Error generating thumbnail:', error);
-    return {success: false as const, error: (error as Error).message};
+    return flowFailure(error);
   }
 }
 
@@ -48,29 +59,46 @@ export async function editThumbnailAction(
 ) {
   try {
     const result = await iterativelyEditThumbnail(input);
-    return {success: true as const, thumbnail: result.editedThumbnail};
+    return {
+      success: true as const,
+      thumbnail: result.editedThumbnail,
+      dimensions: result.dimensions,
+      promptTemplates: result.promptTemplates,
+    };
   } catch (error) {
     console.error('Error editing thumbnail:', error);
-    return {success: false as const, error: (error as Error).message};
+    return flowFailure(error);
   }
 }
 
 export async function batchGenerateAction(input: BatchGenerateInput) {
   try {
     const result = await batchGenerateThumbnails(input);
-    return {success: true, ...result};
+    return {success: true as const, ...result};
   } catch (error) {
     console.error('Error in batch generation:', error);
-    return {success: false, error: (error as Error).message};
+    return flowFailure(error);
   }
 }
 
 export async function intelligentFusionAction(input: IntelligentFusionInput) {
   try {
     const result = await intelligentFusion(input);
-    return {success: true, ...result};
+    return {success: true as const, ...result};
   } catch (error) {
     console.error('Error in intelligent fusion:', error);
-    return {success: false, error: (error as Error).message};
+    return flowFailure(error);
+  }
+}
+
+export async function evaluateConsistencyAction(
+  input: EvaluateConsistencyInput
+) {
+  try {
+    const result = await evaluateConsistency(input);
+    return {success: true as const, consistency: result};
+  } catch (error) {
+    console.error('Error evaluating consistency:', error);
+    return flowFailure(error);
   }
 }
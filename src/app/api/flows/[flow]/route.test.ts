@@ -0,0 +1,61 @@
+import {describe, expect, it} from 'vitest';
+
+import {POST} from '@/app/api/flows/[flow]/route';
+import {imageModel} from '@/test/model-stub';
+
+function post(flow: string, body: unknown) {
+  return POST(
+    new Request(`http://localhost/api/flows/${flow}`, {method: 'POST', body: JSON.stringify(body)}),
+    {params: Promise.resolve({flow})}
+  );
+}
+
+async function readLines(response: Response) {
+  const text = await response.text();
+  return text.trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('POST /api/flows/[flow]', () => {
+  it.each(['unknown', 'toString'])('rejects the flow name %s', async flow => {
+    const response = await post(flow, {});
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({code: 'INVALID_INPUT'});
+  });
+
+  it('streams progress followed by the result', async () => {
+    const lines = await readLines(await post('generateThumbnail', {prompt: 'a cat', aspectRatio: '16:9'}));
+
+    expect(lines[0]).toMatchObject({type: 'progress', progress: {stage: 'generating'}});
+    expect(lines.at(-1)).toMatchObject({type: 'result', result: {thumbnail: expect.any(String)}});
+  });
+
+  it('ends with a typed error line when the flow fails', async () => {
+    imageModel.mockRejectedValueOnce(new Error('[429 Too Many Requests]'));
+
+    const lines = await readLines(await post('generateThumbnail', {prompt: 'a cat', aspectRatio: '16:9'}));
+
+    expect(lines.at(-1)).toEqual({
+      type: 'error',
+      error: '[429 Too Many Requests]',
+      code: 'RATE_LIMITED',
+      retryable: true,
+    });
+  });
+
+  it('stops writing once the client disconnects', async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>(resolve => (finish = resolve));
+    imageModel.mockImplementationOnce(async () => {
+      finish();
+      throw new Error('Model down');
+    });
+
+    const response = await post('generateThumbnail', {prompt: 'a cat', aspectRatio: '16:9'});
+    await response.body!.cancel();
+    await finished;
+
+    // An enqueue or close on the cancelled stream would surface as an unhandled rejection.
+    await new Promise(resolve => setTimeout(resolve, 50));
+  });
+});
@@ -0,0 +1,100 @@
+import {generateThumbnailFromPrompt} from '@/ai/flows/generate-thumbnail-from-prompt';
+import {batchGenerateThumbnails} from '@/ai/flows/batch-generate-thumbnails';
+import {intelligentFusion} from '@/ai/flows/intelligent-fusion';
+import type {FlowProgress} from '@/ai/schemas/progress';
+import {flowFailure} from '@/ai/errors';
+import type {StreamingFlows} from '@/lib/stream-flow';
+
+/**
+ * Streams a flow's progress events followed by its result as newline-delimited JSON.
+ * Each line is one of:
+ *   {"type":"progress","progress":FlowProgress}
+ *   {"type":"result","result":<flow output>}
+ *   {"type":"error","error":string,"code":FlowErrorCode,"retryable":boolean,"reason"?:string}
+ */
+
+type StreamingFlowName = keyof StreamingFlows;
+
+const STREAMING_FLOWS: {
+  [K in StreamingFlowName]: (
+    input: StreamingFlows[K]['input'],
+    onProgress: (event: FlowProgress) => void
+  ) => Promise<StreamingFlows[K]['output']>;
+} = {
+  generateThumbnail: generateThumbnailFromPrompt,
+  batchGenerate: batchGenerateThumbnails,
+  intelligentFusion: intelligentFusion,
+};
+
+function isStreamingFlow(flow: string): flow is StreamingFlowName {
+  return Object.hasOwn(STREAMING_FLOWS, flow);
+}
+
+function runFlow<K extends StreamingFlowName>(
+  flow: K,
+  input: unknown,
+  onProgress: (event: FlowProgress) => void
+): Promise<StreamingFlows[K]['output']> {
+  // Each flow validates its input against its own schema before running.
+  return STREAMING_FLOWS[flow](input as StreamingFlows[K]['input'], onProgress);
+}
+
+export async function POST(
+  request: Request,
+  {params}: {params: Promise<{flow: string}>}
+) {
+  const {flow} = await params;
+  if (!isStreamingFlow(flow)) {
+    return Response.json(
+      {error: `Unknown flow: ${flow}`, code: 'INVALID_INPUT'},
+      {status: 404}
+    );
+  }
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return Response.json(
+      {error: 'Request body must be JSON.', code: 'INVALID_INPUT'},
+      {status: 400}
+    );
+  }
+
+  const encoder = new TextEncoder();
+  // Set once the client disconnects or the stream is closed; the flow keeps
+  // running, but nothing more may be written.
+  let closed = false;
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (line: object) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      };
+      try {
+        const result = await runFlow(flow, input, progress =>
+          send({type: 'progress', progress})
+        );
+        send({type: 'result', result});
+      } catch (error) {
+        console.error(`Error streaming ${flow}:`, error);
+        const {error: message, code, retryable, reason} = flowFailure(error);
+        send({type: 'error', error: message, code, retryable, reason});
+      }
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -1,5 +1,12 @@
 import type { Metadata } from 'next';
-import { Inter, Space_Grotesk } from 'next/font/google';
+import {
+  Anton,
+  Bebas_Neue,
+  Inter,
+  Montserrat,
+  Permanent_Marker,
+  Space_Grotesk,
+} from 'next/font/google';
 import './globals.css';
 import { Toaster } from '@/components/ui/toaster';
 import { cn } from '@/lib/utils';
@@ -11,6 +18,20 @@ const spaceGrotesk = Space_Grotesk({
   variable: '--font-space-grotesk',
 });
 
+// Display faces for text overlays (see src/lib/text-layers.ts).
+const anton = Anton({ subsets: ['latin'], weight: '400', variable: '--font-anton' });
+const bebas = Bebas_Neue({ subsets: ['latin'], weight: '400', variable: '--font-bebas' });
+const montserrat = Montserrat({
+  subsets: ['latin'],
+  weight: '900',
+  variable: '--font-montserrat',
+});
+const marker = Permanent_Marker({
+  subsets: ['latin'],
+  weight: '400',
+  variable: '--font-marker',
+});
+
 export const metadata: Metadata = {
   title: 'AI Thumbcraft',
   description: 'AI-powered thumbnail maker using Google Gemini',
@@ -27,7 +48,11 @@ export default function RootLayout({
         className={cn(
           'font-body antialiased',
           inter.variable,
-          spaceGrotesk.variable
+          spaceGrotesk.variable,
+          anton.variable,
+          bebas.variable,
+          montserrat.variable,
+          marker.variable
         )}
       >
         {children}
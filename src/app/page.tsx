@@ -1,6 +1,6 @@
 'use client';
 
-import {useState, useMemo, useCallback, type ChangeEvent} from 'react';
+import {useState, useMemo, useCallback, useEffect, type ChangeEvent} from 'react';
 import Image from 'next/image';
 import {
   UploadCloud,
@@ -18,6 +18,9 @@ import {
   Users,
   Copy,
   RefreshCw,
+  Layers,
+  Combine,
+  Brush,
 } from 'lucide-react';
 
 import {Button} from '@/components/ui/button';
@@ -31,43 +34,198 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {Tabs, TabsContent, TabsList, TabsTrigger} from '@/components/ui/tabs';
+import {Switch} from '@/components/ui/switch';
+import {ToastAction} from '@/components/ui/toast';
 import {useToast} from '@/hooks/use-toast';
+import {useProjects} from '@/hooks/use-projects';
+import {Progress} from '@/components/ui/progress';
 import {
-  generateThumbnailAction,
   editThumbnailAction,
   optimizePromptAction,
+  evaluateConsistencyAction,
 } from './actions';
 import type {GenerateThumbnailFromPromptInput} from '@/ai/flows/generate-thumbnail-from-prompt';
+import type {PromptAlternative} from '@/ai/flows/optimize-prompt';
+import {FLOW_ERROR_MESSAGES, type FlowFailure} from '@/lib/flow-errors';
+import {ALLOWED_IMAGE_TYPES, isAllowedImageType} from '@/lib/image-limits';
+import {fitImagesToRequest} from '@/lib/fit-images';
+import {
+  ASPECT_RATIO_IDS,
+  ASPECT_RATIOS,
+  isAspectRatio,
+  type AspectRatio,
+} from '@/lib/aspect-ratios';
+import type {
+  BatchGenerateInput,
+  BatchGenerateOutput,
+} from '@/ai/flows/batch-generate-thumbnails';
+import type {
+  IntelligentFusionInput,
+  IntelligentFusionOutput,
+} from '@/ai/flows/intelligent-fusion';
+import type {ConsistencyReport} from '@/ai/schemas/consistency';
+import type {FusionAnalysis} from '@/ai/schemas/image-analysis';
+import type {PromptTemplateRef} from '@/ai/schemas/prompt-template';
 import {cn} from '@/lib/utils';
+import {streamFlow, type FlowProgress} from '@/lib/stream-flow';
 import {Badge} from '@/components/ui/badge';
+import {BatchPanel, MAX_BATCH_SIZE} from '@/components/batch-panel';
+import {BatchResults} from '@/components/batch-results';
+import {
+  FusionPanel,
+  MIN_FUSION_IMAGES,
+  MAX_FUSION_IMAGES,
+} from '@/components/fusion-panel';
+import {FusionDetails} from '@/components/fusion-details';
+import {CandidateCompare, type Candidate} from '@/components/candidate-compare';
+import {ProjectSwitcher} from '@/components/project-switcher';
+import {BrandKitDialog} from '@/components/brand-kit-dialog';
+import {GenrePresetPicker} from '@/components/genre-preset-picker';
+import {useGenrePresets} from '@/hooks/use-genre-presets';
+import {genreContext, type GenrePreset} from '@/lib/genre-presets';
+import {brandGuidelines, type WorkspaceBrandKit} from '@/lib/brand-kit';
+import {EditTimeline} from '@/components/edit-timeline';
+import {MaskCanvas, MaskToolbar, type MaskTool} from '@/components/mask-editor';
+import {TextLayerPanel, TextOverlayCanvas} from '@/components/text-overlay';
+import {flattenTextLayers, type TextLayer} from '@/lib/text-layers';
+import {ExportDialog} from '@/components/export-dialog';
+import {PromptAlternatives} from '@/components/prompt-alternatives';
+import {StructuredPromptEditor} from '@/components/structured-prompt-editor';
+import {assembleStructuredPrompt, type StructuredPrompt} from '@/lib/structured-prompt';
+import {getLineage, getRedoTarget} from '@/lib/edit-lineage';
+import type {GenerationRecord} from '@/lib/storage';
 
 const MAX_IMAGES = 3;
+const MAX_CANDIDATES = 4;
+const MAX_PROMPT_ALTERNATIVES = 4;
+
+type WorkspaceMode = 'single' | 'batch' | 'fusion';
 
 export default function AIPage() {
   const {toast} = useToast();
+  const {
+    projects,
+    activeProject,
+    selectProject,
+    createProject,
+    renameProject,
+    updateBrandKit,
+    deleteProject,
+    generations,
+    saveGenerations,
+    updateGeneration,
+    error: storageError,
+    clearError: clearStorageError,
+  } = useProjects();
+  const brandKit = brandGuidelines(activeProject?.brandKit);
+  const {presets: genrePresets, savePreset, deletePreset} = useGenrePresets();
 
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [prompt, setPrompt] = useState<string>('');
+  const [genrePreset, setGenrePreset] = useState<GenrePreset | null>(null);
   const [optimizedPrompt, setOptimizedPrompt] = useState<string>('');
-  const [aspectRatio, setAspectRatio] =
-    useState<GenerateThumbnailFromPromptInput['aspectRatio']>('1:1');
+  const [optimizeTemplates, setOptimizeTemplates] = useState<PromptTemplateRef[]>([]);
+  const [alternativeCount, setAlternativeCount] = useState<number>(3);
+  const [promptAlternatives, setPromptAlternatives] = useState<PromptAlternative[]>([]);
+  const [promptStructure, setPromptStructure] = useState<StructuredPrompt | null>(null);
+  const [paragraphEdited, setParagraphEdited] = useState<boolean>(false);
+  const [promptView, setPromptView] = useState<'fields' | 'paragraph'>('fields');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
   const [generatedThumbnail, setGeneratedThumbnail] = useState<string | null>(
     null
   );
+  const [candidateCount, setCandidateCount] = useState<number>(1);
+  const [textFree, setTextFree] = useState<boolean>(false);
+  const [rewriteOnBlock, setRewriteOnBlock] = useState<boolean>(false);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
   const [editPrompt, setEditPrompt] = useState<string>('');
   const [isOptimizing, setIsOptimizing] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isEditing, setIsEditing] = useState<boolean>(false);
-  const [generationHistory, setGenerationHistory] = useState<Array<{
-    prompt: string;
-    image: string;
-    timestamp: number;
-    aspectRatio: string;
-  }>>([]);
+  const [progress, setProgress] = useState<FlowProgress | null>(null);
+  const [liveAnalysis, setLiveAnalysis] = useState<FusionAnalysis | null>(
+    null
+  );
   const [selectedStyleReference, setSelectedStyleReference] = useState<string>('');
-  const [consistencyMode, setConsistencyMode] = useState<'character' | 'style' | 'none'>('none');
-  const [batchCount, setBatchCount] = useState<number>(1);
+  const [consistencyMode, setConsistencyMode] =
+    useState<BatchGenerateInput['consistencyMode']>('none');
+  const [mode, setMode] = useState<WorkspaceMode>('single');
+  const [batchBasePrompt, setBatchBasePrompt] = useState<string>('');
+  const [batchPrompts, setBatchPrompts] = useState<string[]>(
+    Array(MAX_BATCH_SIZE).fill('')
+  );
+  const [batchResults, setBatchResults] = useState<
+    BatchGenerateOutput['thumbnails']
+  >([]);
+  const [batchStatuses, setBatchStatuses] = useState<
+    BatchGenerateOutput['results']
+  >([]);
+  const [lastBatchInput, setLastBatchInput] =
+    useState<BatchGenerateInput | null>(null);
+  const [batchConsistency, setBatchConsistency] =
+    useState<ConsistencyReport | null>(null);
+  const [visionReview, setVisionReview] = useState<boolean>(false);
+  const [batchCount, setBatchCount] = useState<number>(3);
   const [currentVariation, setCurrentVariation] = useState<number>(0);
+  const [fusionSources, setFusionSources] = useState<string[]>([]);
+  const [dominantFusionSource, setDominantFusionSource] = useState<
+    string | null
+  >(null);
+  const [fusionPrompt, setFusionPrompt] = useState<string>('');
+  const [fusionStyle, setFusionStyle] =
+    useState<IntelligentFusionInput['fusionStyle']>('seamless');
+  const [creativityLevel, setCreativityLevel] =
+    useState<IntelligentFusionInput['creativityLevel']>('balanced');
+  const [fusionResult, setFusionResult] = useState<Pick<
+    IntelligentFusionOutput,
+    'fusionDescription' | 'technicalDetails' | 'analysis'
+  > | null>(null);
+  // Per version, the child that undo last stepped back from (for redo).
+  const [lastVisitedChild, setLastVisitedChild] = useState<
+    Record<string, string>
+  >({});
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+  const [mask, setMask] = useState<string | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  // Bumped to remount (and so clear) the mask canvas.
+  const [maskKey, setMaskKey] = useState<number>(0);
+  const [textLayers, setTextLayers] = useState<TextLayer[]>([]);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+
+  const lineage = useMemo(
+    () => getLineage(generations, generatedThumbnail),
+    [generations, generatedThumbnail]
+  );
+  const redoTarget = useMemo(
+    () =>
+      lineage
+        ? getRedoTarget(generations, lineage.current, lastVisitedChild)
+        : undefined,
+    [generations, lineage, lastVisitedChild]
+  );
+
+  const clearMask = useCallback(() => {
+    setMask(null);
+    setMaskKey(key => key + 1);
+  }, []);
+
+  // A mask only makes sense for the image it was painted on.
+  useEffect(() => {
+    clearMask();
+  }, [generatedThumbnail, clearMask]);
+
+  useEffect(() => {
+    if (!storageError) return;
+    toast({
+      variant: 'destructive',
+      title: 'Storage Error',
+      description: `Your work could not be saved or loaded: ${storageError}`,
+    });
+    clearStorageError();
+  }, [storageError, toast, clearStorageError]);
 
   const fileToDataUri = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -91,6 +249,16 @@ export default function AIPage() {
           });
           return;
         }
+        // The server rejects these too; large files are fine, they are shrunk before sending.
+        const rejected = files.find(file => !isAllowedImageType(file.type));
+        if (rejected) {
+          toast({
+            variant: 'destructive',
+            title: 'Image not supported',
+            description: `${rejected.name} is not a PNG, JPEG or WebP image.`,
+          });
+          return;
+        }
 
         try {
           const dataUris = await Promise.all(files.map(fileToDataUri));
@@ -107,9 +275,75 @@ export default function AIPage() {
     [uploadedImages.length, toast]
   );
 
-  const handleRemoveImage = useCallback((index: number) => {
-    setUploadedImages(prev => prev.filter((_, i) => i !== index));
-  }, []);
+  const handleRemoveImage = useCallback(
+    (index: number) => {
+      const removed = uploadedImages[index];
+      setUploadedImages(prev => prev.filter((_, i) => i !== index));
+      // Uploads that are no longer present can't stay selected for fusion.
+      if (!generations.some(item => item.image === removed)) {
+        setFusionSources(prev => prev.filter(src => src !== removed));
+        setDominantFusionSource(prev => (prev === removed ? null : prev));
+      }
+    },
+    [uploadedImages, generations]
+  );
+
+  const selectPromptAlternative = (alternative: PromptAlternative) => {
+    setOptimizedPrompt(alternative.prompt);
+    setPromptStructure(alternative.structure ?? null);
+    setParagraphEdited(false);
+  };
+
+  const handleStructureChange = (structure: StructuredPrompt) => {
+    setPromptStructure(structure);
+    setOptimizedPrompt(assembleStructuredPrompt(structure, {textFree}));
+    setParagraphEdited(false);
+  };
+
+  // Explains a failed action by its error code, offering a retry only when it may help.
+  // `rewrite` retries a safety-blocked generation with a rewritten prompt.
+  const toastFailure = (
+    title: string,
+    failure: FlowFailure,
+    retry: () => void,
+    rewrite?: () => void
+  ) => {
+    const message = FLOW_ERROR_MESSAGES[failure.code];
+    const canRewrite = failure.code === 'SAFETY_BLOCKED' && !!rewrite;
+    toast({
+      variant: 'destructive',
+      title: `${title}: ${message.title}`,
+      description:
+        failure.code === 'UNKNOWN' && failure.error
+          ? failure.error
+          : [failure.reason, message.description].filter(Boolean).join(' '),
+      action: failure.retryable ? (
+        <ToastAction altText="Try again" onClick={retry}>
+          Try again
+        </ToastAction>
+      ) : canRewrite ? (
+        <ToastAction altText="Rewrite the prompt and retry" onClick={rewrite}>
+          Rewrite &amp; retry
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  // Shrinks the images of one request to fit the upload limit; null (after a toast) if it cannot.
+  const fitImages = async <T extends readonly (string | undefined)[] | []>(
+    images: T
+  ) => {
+    try {
+      return await fitImagesToRequest(images);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Image Too Large',
+        description: (error as Error).message,
+      });
+      return null;
+    }
+  };
 
   const handleOptimizePrompt = async () => {
     if (!prompt) {
@@ -122,30 +356,37 @@ export default function AIPage() {
     }
     setIsOptimizing(true);
     setOptimizedPrompt('');
+    setPromptAlternatives([]);
+    setPromptStructure(null);
     setGeneratedThumbnail(null);
 
+    const images = await fitImages(uploadedImages.slice(0, MAX_IMAGES));
+    if (!images) {
+      setIsOptimizing(false);
+      return;
+    }
     const result = await optimizePromptAction({
       prompt,
       aspectRatio,
-      image1: uploadedImages[0],
-      image2: uploadedImages[1],
-      image3: uploadedImages[2],
+      image1: images[0],
+      image2: images[1],
+      image3: images[2],
+      alternatives: alternativeCount,
+      genre: genrePreset ? genreContext(genrePreset) : undefined,
+      brandKit,
     });
 
     if (result.success) {
-      setOptimizedPrompt(result.optimizedPrompt);
+      selectPromptAlternative(result.alternatives[0]);
+      setPromptAlternatives(result.alternatives);
+      setOptimizeTemplates(result.promptTemplates);
     } else {
-      toast({
-        variant: 'destructive',
-        title: 'Optimization Failed',
-        description:
-          result.error || 'An unexpected error occurred. Please try again.',
-      });
+      toastFailure('Optimization Failed', result, handleOptimizePrompt);
     }
     setIsOptimizing(false);
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (rewrite: boolean = rewriteOnBlock) => {
     if (!optimizedPrompt) {
       toast({
         variant: 'destructive',
@@ -156,9 +397,14 @@ export default function AIPage() {
     }
     setIsLoading(true);
     setGeneratedThumbnail(null);
+    setCandidates([]);
 
-    // Enhanced prompt with consistency and fusion features
-    let enhancedPrompt = optimizedPrompt;
+    // Enhanced prompt with consistency and fusion features. A text-free image must not
+    // also be asked to render the on-image text field.
+    let enhancedPrompt =
+      textFree && promptStructure && !paragraphEdited
+        ? assembleStructuredPrompt(promptStructure, {textFree})
+        : optimizedPrompt;
     
     if (consistencyMode === 'character' && selectedStyleReference) {
       enhancedPrompt += ' Maintain character consistency with the reference image provided. Keep the same facial features, clothing style, and character design throughout.';
@@ -166,32 +412,386 @@ export default function AIPage() {
       enhancedPrompt += ' Apply the artistic style, color palette, lighting, and visual treatment from the reference image while creating new content.';
     }
 
+    const images = await fitImages([
+      selectedStyleReference || uploadedImages[0],
+      uploadedImages[1],
+      uploadedImages[2],
+    ]);
+    if (!images) {
+      setIsLoading(false);
+      return;
+    }
     const input: GenerateThumbnailFromPromptInput = {
       prompt: enhancedPrompt,
       aspectRatio,
-      image1: selectedStyleReference || uploadedImages[0],
-      image2: uploadedImages[1],
-      image3: uploadedImages[2],
+      image1: images[0],
+      image2: images[1],
+      image3: images[2],
+      candidateCount,
+      textFree,
+      brandKit,
+      rewriteOnBlock: rewrite,
     };
 
-    const result = await generateThumbnailAction(input);
+    const result = await streamFlow('generateThumbnail', input, setProgress);
     if (result.success) {
-      setGeneratedThumbnail(result.thumbnail);
-      // Add to history for consistency tracking
-      setGenerationHistory(prev => [...prev, {
-        prompt: optimizedPrompt,
-        image: result.thumbnail,
-        timestamp: Date.now(),
-        aspectRatio
-      }]);
+      const {thumbnail, safetyRewrite} = result.result;
+      if (safetyRewrite) {
+        toast({
+          title: 'Prompt rewritten for safety',
+          description: `${safetyRewrite.reason} It was generated with: "${safetyRewrite.prompt}"`,
+        });
+      }
+      setGeneratedThumbnail(thumbnail);
+      setCandidates(
+        result.result.candidates.map(image => ({image, starred: false}))
+      );
+      saveGenerations([
+        {
+          image: thumbnail,
+          prompt,
+          optimizedPrompt: safetyRewrite?.prompt ?? enhancedPrompt,
+          references: [input.image1, input.image2, input.image3].filter(
+            (src): src is string => !!src
+          ),
+          aspectRatio,
+          source: 'single',
+          promptTemplates: [...optimizeTemplates, ...result.result.promptTemplates],
+          timestamp: Date.now(),
+        },
+      ]);
     } else {
+      toastFailure(
+        'Generation Failed',
+        result,
+        () => handleGenerate(rewrite),
+        rewrite ? undefined : () => handleGenerate(true)
+      );
+    }
+    setProgress(null);
+    setIsLoading(false);
+  };
+
+  const handlePickCandidate = (image: string) => {
+    if (image === generatedThumbnail) return;
+    // History keeps one entry per generation: the current winner.
+    const record = generations.find(item => item.image === generatedThumbnail);
+    if (record) updateGeneration(record.id, {image});
+    setGeneratedThumbnail(image);
+  };
+
+  const handleToggleStar = (image: string) => {
+    setCandidates(prev =>
+      prev.map(candidate =>
+        candidate.image === image
+          ? {...candidate, starred: !candidate.starred}
+          : candidate
+      )
+    );
+  };
+
+  const handleDiscardCandidate = (image: string) => {
+    setCandidates(prev => prev.filter(candidate => candidate.image !== image));
+  };
+
+  const handleDiscardRest = () => {
+    setCandidates(prev =>
+      prev.filter(
+        candidate => candidate.starred || candidate.image === generatedThumbnail
+      )
+    );
+  };
+
+  const handleModeChange = (value: string) => {
+    const nextMode = value as WorkspaceMode;
+    setMode(nextMode);
+    // Theme consistency only has meaning across a series.
+    if (nextMode !== 'batch' && consistencyMode === 'theme') {
+      setConsistencyMode('none');
+    }
+  };
+
+  const handleGenrePresetChange = (preset: GenrePreset | null) => {
+    setGenrePreset(preset);
+    if (!preset) return;
+    setAspectRatio(preset.aspectRatio);
+    // Theme consistency only has meaning across a series.
+    setConsistencyMode(
+      preset.consistencyMode === 'theme' && mode !== 'batch'
+        ? 'none'
+        : preset.consistencyMode
+    );
+  };
+
+  const handleBatchPromptChange = (index: number, value: string) => {
+    setBatchPrompts(prev => prev.map((p, i) => (i === index ? value : p)));
+  };
+
+  const handleSelectVariation = (position: number) => {
+    const item = batchResults[position];
+    if (!item) return;
+    setCurrentVariation(position);
+    setGeneratedThumbnail(item.image);
+  };
+
+  const addBatchToHistory = (
+    input: BatchGenerateInput,
+    {thumbnails, promptTemplates}: Pick<BatchGenerateOutput, 'thumbnails' | 'promptTemplates'>
+  ) => {
+    const timestamp = Date.now();
+    const reference = input.characterReference ?? input.styleReference;
+    saveGenerations(
+      thumbnails.map((item, i) => ({
+        image: item.image,
+        prompt: `${input.basePrompt} ${item.prompt}`,
+        references: reference ? [reference] : [],
+        aspectRatio: input.aspectRatio,
+        source: 'batch' as const,
+        promptTemplates,
+        timestamp: timestamp + i,
+      }))
+    );
+  };
+
+  const reportBatchFailures = (statuses: BatchGenerateOutput['results']) => {
+    const failed = statuses.filter(item => item.status !== 'ok');
+    if (failed.length === 0) return;
+    const blocked = failed.filter(item => item.status === 'blocked').length;
+    toast({
+      variant: 'destructive',
+      title: 'Some Thumbnails Failed',
+      description: `${failed.length} of ${statuses.length} thumbnails were not generated${
+        blocked ? ` (${blocked} blocked by safety filters)` : ''
+      }. Use "Retry failed" to try them again.`,
+    });
+  };
+
+  // Show batch items in the grid as soon as the stream reports them.
+  const handleBatchProgress = (event: FlowProgress) => {
+    setProgress(event);
+    const item = event.item;
+    if (!item) return;
+    const byIndex = (a: {index: number}, b: {index: number}) =>
+      a.index - b.index;
+    setBatchStatuses(prev =>
+      [
+        ...prev.filter(s => s.index !== item.index),
+        {
+          index: item.index,
+          prompt: item.prompt,
+          status: item.status,
+          error: item.error,
+          code: item.code,
+        },
+      ].sort(byIndex)
+    );
+    if (item.image && item.dimensions) {
+      const {image, dimensions} = item;
+      setBatchResults(prev =>
+        [
+          ...prev.filter(t => t.index !== item.index),
+          {image, prompt: item.prompt, index: item.index, dimensions},
+        ].sort(byIndex)
+      );
+    }
+  };
+
+  const handleBatchGenerate = async () => {
+    const prompts = batchPrompts.slice(0, batchCount).map(p => p.trim());
+    if (!batchBasePrompt.trim() || prompts.some(p => !p)) {
       toast({
         variant: 'destructive',
-        title: 'Generation Failed',
-        description:
-          result.error || 'An unexpected error occurred. Please try again.',
+        title: 'Missing Prompts',
+        description: 'Please fill in the base prompt and every thumbnail prompt.',
       });
+      return;
+    }
+    setIsLoading(true);
+    setGeneratedThumbnail(null);
+    setBatchResults([]);
+    setBatchStatuses([]);
+    setBatchConsistency(null);
+    setCurrentVariation(0);
+
+    const fitted = await fitImages([selectedStyleReference || uploadedImages[0]]);
+    if (!fitted) {
+      setIsLoading(false);
+      return;
+    }
+    const [reference] = fitted;
+    const input: BatchGenerateInput = {
+      prompts,
+      basePrompt: batchBasePrompt.trim(),
+      aspectRatio,
+      consistencyMode,
+      characterReference: consistencyMode === 'character' ? reference : undefined,
+      styleReference: consistencyMode === 'style' ? reference : undefined,
+      consistencyCheck: visionReview ? 'vision' : 'perceptual',
+      brandKit,
+    };
+    setLastBatchInput(input);
+    const response = await streamFlow(
+      'batchGenerate',
+      input,
+      handleBatchProgress
+    );
+    const result = response.success
+      ? {success: true as const, ...response.result}
+      : response;
+
+    if (result.success) {
+      setBatchResults(result.thumbnails);
+      setBatchStatuses(result.results);
+      setBatchConsistency(result.consistency ?? null);
+      if (result.thumbnails.length > 0) {
+        setGeneratedThumbnail(result.thumbnails[0].image);
+        addBatchToHistory(input, result);
+      }
+      reportBatchFailures(result.results);
+    } else {
+      toastFailure('Batch Generation Failed', result, handleBatchGenerate);
+    }
+    setProgress(null);
+    setIsLoading(false);
+  };
+
+  const handleRetryFailed = async () => {
+    const failedIndices = batchStatuses
+      .filter(item => item.status !== 'ok')
+      .map(item => item.index);
+    if (!lastBatchInput || failedIndices.length === 0) return;
+    setIsLoading(true);
+
+    const response = await streamFlow(
+      'batchGenerate',
+      {...lastBatchInput, indices: failedIndices},
+      handleBatchProgress
+    );
+    const result = response.success
+      ? {success: true as const, ...response.result}
+      : response;
+
+    if (result.success) {
+      const merged = [...batchResults, ...result.thumbnails].sort(
+        (a, b) => a.index - b.index
+      );
+      const statuses = batchStatuses.map(
+        item => result.results.find(r => r.index === item.index) ?? item
+      );
+      const shown = merged.findIndex(item => item.image === generatedThumbnail);
+      setBatchResults(merged);
+      setBatchStatuses(statuses);
+      setCurrentVariation(Math.max(0, shown));
+      if (shown === -1 && merged.length > 0) {
+        setGeneratedThumbnail(merged[0].image);
+      }
+      addBatchToHistory(lastBatchInput, result);
+      reportBatchFailures(statuses);
+      if (result.thumbnails.length > 0) {
+        // The retry only scored the new items; re-score the whole series.
+        const reference =
+          lastBatchInput.characterReference ?? lastBatchInput.styleReference;
+        const images = await fitImages([
+          ...merged.map(item => item.image),
+          ...(reference ? [reference] : []),
+        ]);
+        const rescored = images
+          ? await evaluateConsistencyAction({
+              thumbnails: merged.map(({index}, i) => ({index, image: images[i]})),
+              reference: reference ? images[merged.length] : undefined,
+              referenceKind: lastBatchInput.characterReference
+                ? 'character'
+                : lastBatchInput.styleReference
+                  ? 'style'
+                  : undefined,
+              method:
+                lastBatchInput.consistencyCheck === 'vision' ? 'vision' : 'perceptual',
+            })
+          : null;
+        if (rescored?.success) setBatchConsistency(rescored.consistency);
+      }
+    } else {
+      toastFailure('Retry Failed', result, handleRetryFailed);
     }
+    setProgress(null);
+    setIsLoading(false);
+  };
+
+  const handleToggleFusionSource = (src: string) => {
+    if (fusionSources.includes(src)) {
+      setFusionSources(prev => prev.filter(s => s !== src));
+      if (dominantFusionSource === src) setDominantFusionSource(null);
+      return;
+    }
+    if (fusionSources.length >= MAX_FUSION_IMAGES) return;
+    setFusionSources(prev => [...prev, src]);
+  };
+
+  const handleFuse = async () => {
+    if (fusionSources.length < MIN_FUSION_IMAGES || !fusionPrompt.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing Fusion Input',
+        description: `Select ${MIN_FUSION_IMAGES}-${MAX_FUSION_IMAGES} images and describe how to combine them.`,
+      });
+      return;
+    }
+    setIsLoading(true);
+    setGeneratedThumbnail(null);
+    setFusionResult(null);
+    setLiveAnalysis(null);
+
+    const images = await fitImages(fusionSources);
+    if (!images) {
+      setIsLoading(false);
+      return;
+    }
+    const dominantIndex = dominantFusionSource
+      ? fusionSources.indexOf(dominantFusionSource)
+      : -1;
+    const response = await streamFlow(
+      'intelligentFusion',
+      {
+        images,
+        fusionPrompt: fusionPrompt.trim(),
+        aspectRatio,
+        fusionStyle,
+        creativityLevel,
+        dominantImage: dominantIndex >= 0 ? dominantIndex : undefined,
+        brandKit,
+      },
+      event => {
+        setProgress(event);
+        if (event.analysis) setLiveAnalysis(event.analysis);
+      }
+    );
+    const result = response.success
+      ? {success: true as const, ...response.result}
+      : response;
+
+    if (result.success) {
+      setGeneratedThumbnail(result.fusedImage);
+      setFusionResult({
+        fusionDescription: result.fusionDescription,
+        technicalDetails: result.technicalDetails,
+        analysis: result.analysis,
+      });
+      saveGenerations([
+        {
+          image: result.fusedImage,
+          prompt: fusionPrompt.trim(),
+          references: fusionSources,
+          aspectRatio,
+          source: 'fusion',
+          promptTemplates: result.promptTemplates,
+          timestamp: Date.now(),
+        },
+      ]);
+    } else {
+      toastFailure('Fusion Failed', result, handleFuse);
+    }
+    setProgress(null);
+    setLiveAnalysis(null);
     setIsLoading(false);
   };
 
@@ -205,51 +805,150 @@ export default function AIPage() {
       return;
     }
     setIsEditing(true);
+    // Edits keep the image's own ratio; the dropdown may have changed since it was generated.
+    const recordedRatio = lineage?.current.aspectRatio;
+    const imageAspectRatio =
+      recordedRatio && isAspectRatio(recordedRatio) ? recordedRatio : aspectRatio;
 
+    const images = await fitImages([
+      generatedThumbnail,
+      isMasking && mask ? mask : undefined,
+    ]);
+    if (!images) {
+      setIsEditing(false);
+      return;
+    }
+    const [baseImage, fittedMask] = images;
     const result = await editThumbnailAction({
-      baseImage: generatedThumbnail,
+      baseImage,
       prompt: editPrompt,
-      aspectRatio,
+      aspectRatio: imageAspectRatio,
+      mask: fittedMask,
+      brandKit,
     });
 
     if (result.success) {
-      setGeneratedThumbnail(result.thumbnail);
+      showVersion(result.thumbnail);
+      saveGenerations([
+        {
+          image: result.thumbnail,
+          prompt: editPrompt,
+          references: [generatedThumbnail],
+          aspectRatio: imageAspectRatio,
+          source: 'edit',
+          parentId: lineage?.current.id,
+          promptTemplates: result.promptTemplates,
+          timestamp: Date.now(),
+        },
+      ]);
       setEditPrompt('');
     } else {
-      toast({
-        variant: 'destructive',
-        title: 'Edit Failed',
-        description:
-          result.error || 'An unexpected error occurred. Please try again.',
-      });
+      toastFailure('Edit Failed', result, handleEdit);
     }
     setIsEditing(false);
   };
 
-  const handleDownload = () => {
-    if (!generatedThumbnail) return;
-    const link = document.createElement('a');
-    link.href = generatedThumbnail;
-    const fileExtension =
-      generatedThumbnail.split(';')[0].split('/')[1] || 'png';
-    link.download = `thumbnail-${Date.now()}.${fileExtension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Swaps the displayed image for another version of the same thumbnail.
+  const showVersion = (image: string) => {
+    // Keep the batch grid in sync when refining one of its thumbnails.
+    setBatchResults(prev =>
+      prev.map((item, i) =>
+        i === currentVariation && item.image === generatedThumbnail
+          ? {...item, image}
+          : item
+      )
+    );
+    setGeneratedThumbnail(image);
   };
 
+  const handleSelectVersion = (record: GenerationRecord) => {
+    if (lineage) {
+      // Remember the path being left so redo can walk back down it.
+      const path = lineage.nodes.filter(node => node.onPath);
+      const trail: Record<string, string> = {};
+      path.slice(1).forEach((node, i) => {
+        trail[path[i].record.id] = node.record.id;
+      });
+      setLastVisitedChild(prev => ({...prev, ...trail}));
+    }
+    showVersion(record.image);
+  };
+
+  const handleUndo = () => {
+    if (lineage?.parent) handleSelectVersion(lineage.parent);
+  };
+
+  const handleRedo = () => {
+    if (redoTarget) showVersion(redoTarget.image);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.key.toLowerCase() !== 'z' ||
+        target.closest('input, textarea, [contenteditable="true"]') ||
+        isLoading ||
+        isEditing
+      ) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleMoveLayer = (id: string, x: number, y: number) => {
+    setTextLayers(prev =>
+      prev.map(layer => (layer.id === id ? {...layer, x, y} : layer))
+    );
+  };
+
+  const prepareExportImage = () =>
+    flattenTextLayers(generatedThumbnail!, textLayers);
+
   const imageInputKey = useMemo(
     () => uploadedImages.join('-'),
     [uploadedImages]
   );
-  const aspectRatioClass = useMemo(() => {
-    if (aspectRatio === '16:9') return 'aspect-[16/9]';
-    if (aspectRatio === '9:16') return 'aspect-[9/16]';
-    return 'aspect-square';
-  }, [aspectRatio]);
+  const aspectRatioClass = ASPECT_RATIOS[aspectRatio].className;
+
+  const fusionCandidates = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...uploadedImages,
+          ...generations.map(item => item.image).reverse(),
+        ])
+      ),
+    [uploadedImages, generations]
+  );
 
   const allDisabled = isLoading || isEditing || isOptimizing;
 
+  const handleSaveBrandKit = async (kit: WorkspaceBrandKit | null) => {
+    if (!activeProject) return;
+    try {
+      await updateBrandKit(activeProject.id, kit);
+      toast({
+        title: kit ? 'Brand Kit Saved' : 'Brand Kit Removed',
+        description: kit
+          ? `Every generation in ${activeProject.name} now follows the brand kit.`
+          : `${activeProject.name} no longer has a brand kit.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Brand Kit Not Saved',
+        description: (error as Error).message,
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen w-full bg-background text-foreground">
       <header className="sticky top-0 z-30 flex h-14 items-center gap-4 border-b bg-background/80 px-4 backdrop-blur-sm sm:h-16 sm:px-6">
@@ -259,6 +958,23 @@ export default function AIPage() {
             AI Thumbcraft
           </h1>
         </div>
+        <div className="ml-auto flex items-center gap-2">
+          <BrandKitDialog
+            projectName={activeProject?.name}
+            brandKit={activeProject?.brandKit}
+            onSave={handleSaveBrandKit}
+            disabled={allDisabled || !activeProject}
+          />
+          <ProjectSwitcher
+            projects={projects}
+            activeProject={activeProject}
+            onSelect={selectProject}
+            onCreate={createProject}
+            onRename={renameProject}
+            onDelete={deleteProject}
+            disabled={allDisabled}
+          />
+        </div>
       </header>
 
       <div className="grid lg:grid-cols-2 min-h-[calc(100vh-4rem)]">
@@ -273,36 +989,65 @@ export default function AIPage() {
               </p>
             </div>
 
+            <Tabs value={mode} onValueChange={handleModeChange}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="single" disabled={allDisabled}>
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  Single
+                </TabsTrigger>
+                <TabsTrigger value="batch" disabled={allDisabled}>
+                  <Layers className="w-4 h-4 mr-2" />
+                  Batch
+                </TabsTrigger>
+                <TabsTrigger value="fusion" disabled={allDisabled}>
+                  <Combine className="w-4 h-4 mr-2" />
+                  Fusion
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+
             <div className="space-y-4">
               <Label className="text-lg font-semibold">
                 1. Upload assets & references
               </Label>
-              <div className="flex gap-2 mb-3">
-                <Button
-                  variant={consistencyMode === 'none' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setConsistencyMode('none')}
-                >
-                  <ImageIcon className="w-4 h-4 mr-1" />
-                  Assets
-                </Button>
-                <Button
-                  variant={consistencyMode === 'character' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setConsistencyMode('character')}
-                >
-                  <Users className="w-4 h-4 mr-1" />
-                  Character
-                </Button>
-                <Button
-                  variant={consistencyMode === 'style' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setConsistencyMode('style')}
-                >
-                  <Palette className="w-4 h-4 mr-1" />
-                  Style
-                </Button>
-              </div>
+              {mode !== 'fusion' && (
+                <div className="flex gap-2 mb-3">
+                  <Button
+                    variant={consistencyMode === 'none' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setConsistencyMode('none')}
+                  >
+                    <ImageIcon className="w-4 h-4 mr-1" />
+                    Assets
+                  </Button>
+                  <Button
+                    variant={consistencyMode === 'character' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setConsistencyMode('character')}
+                  >
+                    <Users className="w-4 h-4 mr-1" />
+                    Character
+                  </Button>
+                  <Button
+                    variant={consistencyMode === 'style' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setConsistencyMode('style')}
+                  >
+                    <Palette className="w-4 h-4 mr-1" />
+                    Style
+                  </Button>
+                  {mode === 'batch' && (
+                    <Button
+                      variant={consistencyMode === 'theme' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setConsistencyMode('theme')}
+                    >
+                      <Sparkles className="w-4 h-4 mr-1" />
+                      Theme
+                    </Button>
+                  )}
+                </div>
+              )}
               <div className="grid grid-cols-3 gap-4">
                 {uploadedImages.map((src, index) => (
                   <div
@@ -343,88 +1088,293 @@ export default function AIPage() {
                 type="file"
                 className="sr-only"
                 multiple
-                accept="image/png, image/jpeg, image/webp"
+                accept={ALLOWED_IMAGE_TYPES.join(', ')}
                 onChange={handleImageChange}
                 disabled={allDisabled}
               />
             </div>
 
-            <div className="space-y-4">
-              <Label htmlFor="prompt" className="text-lg font-semibold">
-                2. Describe your design
-              </Label>
-              <Textarea
-                id="prompt"
-                placeholder="e.g., A vibrant, eye-catching thumbnail with a shocked face emoji, bold yellow text 'YOU WON'T BELIEVE THIS!'..."
-                value={prompt}
-                onChange={e => setPrompt(e.target.value)}
-                rows={5}
-                className="text-base"
+            {mode === 'fusion' && (
+              <FusionPanel
+                sources={fusionCandidates}
+                selected={fusionSources}
+                onToggle={handleToggleFusionSource}
+                dominant={dominantFusionSource}
+                onDominantChange={setDominantFusionSource}
+                fusionPrompt={fusionPrompt}
+                onFusionPromptChange={setFusionPrompt}
+                fusionStyle={fusionStyle}
+                onFusionStyleChange={setFusionStyle}
+                creativityLevel={creativityLevel}
+                onCreativityLevelChange={setCreativityLevel}
                 disabled={allDisabled}
               />
-            </div>
+            )}
+
+            {mode === 'batch' && (
+              <BatchPanel
+                basePrompt={batchBasePrompt}
+                onBasePromptChange={setBatchBasePrompt}
+                prompts={batchPrompts}
+                onPromptChange={handleBatchPromptChange}
+                batchCount={batchCount}
+                onBatchCountChange={setBatchCount}
+                visionReview={visionReview}
+                onVisionReviewChange={setVisionReview}
+                disabled={allDisabled}
+              />
+            )}
+
+            {mode === 'single' && (
+              <div className="space-y-4">
+                <Label htmlFor="prompt" className="text-lg font-semibold">
+                  2. Describe your design
+                </Label>
+                <GenrePresetPicker
+                  presets={genrePresets}
+                  selected={genrePreset}
+                  onSelect={handleGenrePresetChange}
+                  onSave={preset =>
+                    setGenrePreset(
+                      savePreset({
+                        ...preset,
+                        aspectRatio,
+                        consistencyMode,
+                        examplePrompt: prompt.trim(),
+                      })
+                    )
+                  }
+                  onDelete={deletePreset}
+                  defaultScaffolding={genrePreset?.scaffolding ?? ''}
+                  disabled={allDisabled}
+                />
+                <Textarea
+                  id="prompt"
+                  placeholder={
+                    genrePreset?.examplePrompt
+                      ? `e.g., ${genrePreset.examplePrompt}`
+                      : "e.g., A vibrant, eye-catching thumbnail with a shocked face emoji, bold yellow text 'YOU WON'T BELIEVE THIS!'..."
+                  }
+                  value={prompt}
+                  onChange={e => setPrompt(e.target.value)}
+                  rows={5}
+                  className="text-base"
+                  disabled={allDisabled}
+                />
+              </div>
+            )}
 
             <div className="space-y-4">
               <Label htmlFor="aspect-ratio" className="text-lg font-semibold">
-                3. Choose aspect ratio
+                {mode === 'single' ? '3' : '4'}. Choose aspect ratio
               </Label>
               <Select
                 value={aspectRatio}
-                onValueChange={value =>
-                  setAspectRatio(value as '16:9' | '9:16' | '1:1')
-                }
+                onValueChange={value => setAspectRatio(value as AspectRatio)}
                 disabled={allDisabled}
               >
                 <SelectTrigger id="aspect-ratio" className="text-base h-12">
                   <SelectValue placeholder="Select aspect ratio" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="16:9">16:9 - Widescreen (YouTube)</SelectItem>
-                  <SelectItem value="9:16">9:16 - Vertical (Shorts, Reels)</SelectItem>
-                  <SelectItem value="1:1">1:1 - Square (Instagram)</SelectItem>
+                  {ASPECT_RATIO_IDS.map(id => (
+                    <SelectItem key={id} value={id}>
+                      {id} - {ASPECT_RATIOS[id].label} ({ASPECT_RATIOS[id].platform})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
-            <div className="space-y-4">
-              <Label className="text-lg font-semibold flex items-center gap-2">
-                4. Optimize Prompt with AI
-              </Label>
+            {mode === 'batch' && (
               <Button
-                onClick={handleOptimizePrompt}
-                disabled={allDisabled || !prompt}
+                onClick={handleBatchGenerate}
+                disabled={allDisabled || !batchBasePrompt.trim()}
                 className="w-full text-lg h-14"
                 size="lg"
-                variant="outline"
               >
-                {isOptimizing ? (
+                {isLoading ? (
                   <Loader2 className="mr-2 h-6 w-6 animate-spin" />
                 ) : (
-                  <Sparkles className="mr-2 h-6 w-6" />
+                  <Layers className="mr-2 h-6 w-6" />
                 )}
-                Optimize Prompt
-                <ArrowRight className="ml-2 h-5 w-5" />
+                Generate {batchCount} Thumbnail{batchCount > 1 ? 's' : ''}
+                <ChevronRight className="ml-2 h-5 w-5" />
               </Button>
-            </div>
+            )}
+
+            {mode === 'fusion' && (
+              <Button
+                onClick={handleFuse}
+                disabled={
+                  allDisabled ||
+                  fusionSources.length < MIN_FUSION_IMAGES ||
+                  !fusionPrompt.trim()
+                }
+                className="w-full text-lg h-14"
+                size="lg"
+              >
+                {isLoading ? (
+                  <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+                ) : (
+                  <Combine className="mr-2 h-6 w-6" />
+                )}
+                Fuse {fusionSources.length || ''} Images
+                <ChevronRight className="ml-2 h-5 w-5" />
+              </Button>
+            )}
+
+            {mode === 'single' && (
+              <div className="space-y-4">
+                <Label className="text-lg font-semibold flex items-center gap-2">
+                  4. Optimize Prompt with AI
+                </Label>
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="alternative-count" className="font-semibold">
+                    Directions to choose from
+                  </Label>
+                  <Select
+                    value={String(alternativeCount)}
+                    onValueChange={value => setAlternativeCount(Number(value))}
+                    disabled={allDisabled}
+                  >
+                    <SelectTrigger id="alternative-count" className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({length: MAX_PROMPT_ALTERNATIVES}, (_, i) => i + 1).map(
+                        n => (
+                          <SelectItem key={n} value={String(n)}>
+                            {n}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={handleOptimizePrompt}
+                  disabled={allDisabled || !prompt}
+                  className="w-full text-lg h-14"
+                  size="lg"
+                  variant="outline"
+                >
+                  {isOptimizing ? (
+                    <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+                  ) : (
+                    <Sparkles className="mr-2 h-6 w-6" />
+                  )}
+                  Optimize Prompt{alternativeCount > 1 ? 's' : ''}
+                  <ArrowRight className="ml-2 h-5 w-5" />
+                </Button>
+              </div>
+            )}
 
-            {optimizedPrompt && (
+            {mode === 'single' && optimizedPrompt && (
               <div className="space-y-4">
+                <PromptAlternatives
+                  alternatives={promptAlternatives}
+                  selectedPrompt={optimizedPrompt}
+                  onSelect={selectPromptAlternative}
+                  disabled={allDisabled}
+                />
                 <Label
                   htmlFor="optimized-prompt"
                   className="text-lg font-semibold"
                 >
                   Optimized Prompt
                 </Label>
-                <Textarea
-                  id="optimized-prompt"
-                  value={optimizedPrompt}
-                  onChange={e => setOptimizedPrompt(e.target.value)}
-                  rows={6}
-                  className="text-base bg-muted/30"
-                  disabled={allDisabled}
-                />
+                <Tabs
+                  value={promptStructure ? promptView : 'paragraph'}
+                  onValueChange={value => setPromptView(value as typeof promptView)}
+                >
+                  {promptStructure && (
+                    <TabsList className="grid w-full grid-cols-2">
+                      <TabsTrigger value="fields">Fields</TabsTrigger>
+                      <TabsTrigger value="paragraph">Paragraph</TabsTrigger>
+                    </TabsList>
+                  )}
+                  {promptStructure && (
+                    <TabsContent value="fields">
+                      <StructuredPromptEditor
+                        structure={promptStructure}
+                        onChange={handleStructureChange}
+                        paragraphEdited={paragraphEdited}
+                        disabled={allDisabled}
+                      />
+                    </TabsContent>
+                  )}
+                  <TabsContent value="paragraph">
+                    <Textarea
+                      id="optimized-prompt"
+                      value={optimizedPrompt}
+                      onChange={e => {
+                        setOptimizedPrompt(e.target.value);
+                        setParagraphEdited(true);
+                      }}
+                      rows={6}
+                      className="text-base bg-muted/30"
+                      disabled={allDisabled}
+                    />
+                  </TabsContent>
+                </Tabs>
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="candidate-count" className="font-semibold">
+                    Candidates to compare
+                  </Label>
+                  <Select
+                    value={String(candidateCount)}
+                    onValueChange={value => setCandidateCount(Number(value))}
+                    disabled={allDisabled}
+                  >
+                    <SelectTrigger id="candidate-count" className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({length: MAX_CANDIDATES}, (_, i) => i + 1).map(
+                        n => (
+                          <SelectItem key={n} value={String(n)}>
+                            {n}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="text-free">Text-free background</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Ask the model not to draw any text, then add your
+                      headline as a text layer so it is always spelled right.
+                    </p>
+                  </div>
+                  <Switch
+                    id="text-free"
+                    checked={textFree}
+                    onCheckedChange={setTextFree}
+                    disabled={allDisabled}
+                  />
+                </div>
+                <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="rewrite-on-block">
+                      Rewrite blocked prompts
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      If the safety filters block the prompt, rephrase it
+                      within content policies and try once more.
+                    </p>
+                  </div>
+                  <Switch
+                    id="rewrite-on-block"
+                    checked={rewriteOnBlock}
+                    onCheckedChange={setRewriteOnBlock}
+                    disabled={allDisabled}
+                  />
+                </div>
                 <Button
-                  onClick={handleGenerate}
+                  onClick={() => handleGenerate()}
                   disabled={allDisabled || !optimizedPrompt}
                   className="w-full text-lg h-14"
                   size="lg"
@@ -434,7 +1384,7 @@ export default function AIPage() {
                   ) : (
                     <Wand2 className="mr-2 h-6 w-6" />
                   )}
-                  Generate Thumbnail
+                  Generate Thumbnail{candidateCount > 1 ? 's' : ''}
                   <ChevronRight className="ml-2 h-5 w-5" />
                 </Button>
               </div>
@@ -448,26 +1398,67 @@ export default function AIPage() {
               className={cn(
                 'relative w-full rounded-xl overflow-hidden shadow-2xl shadow-primary/10 border-2 border-dashed flex items-center justify-center',
                 aspectRatioClass,
-                aspectRatio === '9:16' ? 'max-w-sm' : 'max-w-2xl'
+                ASPECT_RATIOS[aspectRatio].orientation === 'portrait'
+                  ? 'max-w-sm'
+                  : 'max-w-2xl'
               )}
             >
               {isLoading ? (
                 <div className="flex flex-col items-center gap-4 text-muted-foreground p-8">
                   <Loader2 className="h-12 w-12 animate-spin text-primary" />
-                  <p className="font-semibold text-lg">
-                    Generating your masterpiece...
-                  </p>
-                  <p className="text-sm text-center">
-                    This can take up to 30 seconds.
+                  <p className="font-semibold text-lg text-center">
+                    {progress?.message ?? 'Generating your masterpiece...'}
                   </p>
+                  {progress?.total ? (
+                    <Progress
+                      value={((progress.completed ?? 0) / progress.total) * 100}
+                      className="w-48"
+                    />
+                  ) : (
+                    <p className="text-sm text-center">
+                      This can take up to 30 seconds.
+                    </p>
+                  )}
+                  {liveAnalysis && (
+                    <ul className="text-xs text-center space-y-1">
+                      {liveAnalysis.images.map(image => (
+                        <li key={image.index}>
+                          Image {image.index + 1} ({image.suggestedRole}):{' '}
+                          {image.subject}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               ) : generatedThumbnail ? (
-                <Image
-                  src={generatedThumbnail}
-                  alt="Generated thumbnail"
-                  fill
-                  className="object-cover"
-                />
+                <>
+                  <Image
+                    src={generatedThumbnail}
+                    alt="Generated thumbnail"
+                    fill
+                    className="object-cover"
+                  />
+                  {textLayers.length > 0 && (
+                    <TextOverlayCanvas
+                      image={generatedThumbnail}
+                      layers={textLayers}
+                      selectedId={selectedLayerId}
+                      onSelect={setSelectedLayerId}
+                      onMove={handleMoveLayer}
+                      interactive={!isMasking && !isEditing}
+                    />
+                  )}
+                  {isMasking && (
+                    <MaskCanvas
+                      key={maskKey}
+                      image={generatedThumbnail}
+                      tool={maskTool}
+                      brushSize={brushSize}
+                      onMaskChange={setMask}
+                      disabled={isEditing}
+                    />
+                  )}
+                </>
               ) : (
                 <div className="flex flex-col items-center gap-4 text-muted-foreground p-8">
                   <ImageIcon className="h-16 w-16" />
@@ -487,13 +1478,35 @@ export default function AIPage() {
             {generatedThumbnail && !isLoading && (
               <div className="w-full max-w-2xl space-y-4 mt-6">
                 <div className="space-y-2">
-                  <Label
-                    htmlFor="edit-prompt"
-                    className="font-semibold flex items-center gap-2 text-base"
-                  >
-                    <Edit className="w-5 h-5" />
-                    Refine with AI
-                  </Label>
+                  <div className="flex items-center justify-between">
+                    <Label
+                      htmlFor="edit-prompt"
+                      className="font-semibold flex items-center gap-2 text-base"
+                    >
+                      <Edit className="w-5 h-5" />
+                      Refine with AI
+                    </Label>
+                    <Button
+                      variant={isMasking ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setIsMasking(prev => !prev)}
+                      disabled={isEditing}
+                    >
+                      <Brush className="mr-2 h-4 w-4" />
+                      {isMasking ? 'Editing region' : 'Select region'}
+                    </Button>
+                  </div>
+                  {isMasking && (
+                    <MaskToolbar
+                      tool={maskTool}
+                      onToolChange={setMaskTool}
+                      brushSize={brushSize}
+                      onBrushSizeChange={setBrushSize}
+                      hasMask={!!mask}
+                      onClear={clearMask}
+                      disabled={isEditing}
+                    />
+                  )}
                   <Textarea
                     id="edit-prompt"
                     placeholder="e.g., 'Make the text bigger', 'Change the background to blue', 'Add more dramatic lighting'..."
@@ -528,8 +1541,21 @@ export default function AIPage() {
                     Use Style
                   </Button>
                   <Button
-                    onClick={handleGenerate}
-                    disabled={isLoading || !optimizedPrompt}
+                    onClick={
+                      mode === 'batch'
+                        ? handleBatchGenerate
+                        : mode === 'fusion'
+                          ? handleFuse
+                          : () => handleGenerate()
+                    }
+                    disabled={
+                      isLoading ||
+                      (mode === 'batch'
+                        ? !batchBasePrompt.trim()
+                        : mode === 'fusion'
+                          ? fusionSources.length < MIN_FUSION_IMAGES
+                          : !optimizedPrompt)
+                    }
                     variant="outline"
                     className="h-11 text-sm"
                   >
@@ -537,29 +1563,97 @@ export default function AIPage() {
                     Variation
                   </Button>
                   <Button
-                    onClick={handleDownload}
+                    onClick={() => setIsExportOpen(true)}
                     className="h-11 text-sm bg-primary hover:bg-primary/90"
                   >
                     <Download className="mr-2 h-4 w-4" />
                     Download
                   </Button>
                 </div>
+                <ExportDialog
+                  open={isExportOpen}
+                  onOpenChange={setIsExportOpen}
+                  aspectRatio={lineage?.current.aspectRatio ?? aspectRatio}
+                  prepareImage={prepareExportImage}
+                  brandKit={activeProject?.brandKit}
+                  onError={message =>
+                    toast({
+                      variant: 'destructive',
+                      title: 'Export Failed',
+                      description: message,
+                    })
+                  }
+                />
               </div>
             )}
 
+            {generatedThumbnail && !isLoading && (
+              <TextLayerPanel
+                layers={textLayers}
+                selectedId={selectedLayerId}
+                onSelect={setSelectedLayerId}
+                onChange={setTextLayers}
+                disabled={isEditing}
+              />
+            )}
+
+            {lineage && !isLoading && (
+              <EditTimeline
+                lineage={lineage}
+                canRedo={!!redoTarget}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onSelect={handleSelectVersion}
+                disabled={allDisabled}
+              />
+            )}
+
+            {mode === 'single' && !isLoading && (
+              <CandidateCompare
+                candidates={candidates}
+                winner={generatedThumbnail}
+                aspectRatioClass={aspectRatioClass}
+                onPick={handlePickCandidate}
+                onToggleStar={handleToggleStar}
+                onDiscard={handleDiscardCandidate}
+                onDiscardRest={handleDiscardRest}
+                disabled={allDisabled}
+              />
+            )}
+
+            {mode === 'fusion' && fusionResult && !isLoading && (
+              <FusionDetails result={fusionResult} />
+            )}
+
+            {mode === 'batch' && (
+              <BatchResults
+                thumbnails={batchResults}
+                statuses={batchStatuses}
+                consistency={batchConsistency}
+                current={currentVariation}
+                onSelect={handleSelectVariation}
+                onRetryFailed={handleRetryFailed}
+                disabled={allDisabled}
+              />
+            )}
+
             {/* Generation History */}
-            {generationHistory.length > 0 && (
+            {generations.length > 0 && (
               <div className="w-full max-w-2xl mt-8">
                 <Label className="font-semibold flex items-center gap-2 text-base mb-4">
                   <History className="w-5 h-5" />
                   Generation History
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {activeProject?.name} &middot; {generations.length}
+                  </span>
                 </Label>
-                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                  {generationHistory.slice(-6).map((item, index) => (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-[32rem] overflow-y-auto pr-1">
+                  {[...generations].reverse().map((item, index) => (
                     <div
-                      key={item.timestamp}
+                      key={item.id}
                       className="group relative aspect-square overflow-hidden rounded-lg border cursor-pointer hover:border-primary transition-colors"
                       onClick={() => setSelectedStyleReference(item.image)}
+                      title={item.prompt}
                     >
                       <Image
                         src={item.image}
@@ -0,0 +1,111 @@
+'use client';
+
+import {Input} from '@/components/ui/input';
+import {Label} from '@/components/ui/label';
+import {Textarea} from '@/components/ui/textarea';
+import {Switch} from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export const MAX_BATCH_SIZE = 10;
+
+interface BatchPanelProps {
+  basePrompt: string;
+  onBasePromptChange: (value: string) => void;
+  prompts: string[];
+  onPromptChange: (index: number, value: string) => void;
+  batchCount: number;
+  onBatchCountChange: (count: number) => void;
+  visionReview: boolean;
+  onVisionReviewChange: (enabled: boolean) => void;
+  disabled: boolean;
+}
+
+export function BatchPanel({
+  basePrompt,
+  onBasePromptChange,
+  prompts,
+  onPromptChange,
+  batchCount,
+  onBatchCountChange,
+  visionReview,
+  onVisionReviewChange,
+  disabled,
+}: BatchPanelProps) {
+  const activePrompts = prompts.slice(0, batchCount);
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <Label htmlFor="batch-base-prompt" className="text-lg font-semibold">
+          2. Describe the series
+        </Label>
+        <Textarea
+          id="batch-base-prompt"
+          placeholder="e.g., Bold tech-review thumbnail, presenter on the left, neon blue rim light, large yellow headline text..."
+          value={basePrompt}
+          onChange={e => onBasePromptChange(e.target.value)}
+          rows={4}
+          className="text-base"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="batch-count" className="text-lg font-semibold">
+            3. Thumbnails in this batch
+          </Label>
+          <Select
+            value={String(batchCount)}
+            onValueChange={value => onBatchCountChange(Number(value))}
+            disabled={disabled}
+          >
+            <SelectTrigger id="batch-count" className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({length: MAX_BATCH_SIZE}, (_, i) => i + 1).map(n => (
+                <SelectItem key={n} value={String(n)}>
+                  {n}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          {activePrompts.map((value, index) => (
+            <Input
+              key={index}
+              aria-label={`Prompt for thumbnail ${index + 1}`}
+              placeholder={`Thumbnail ${index + 1}, e.g. "Episode ${index + 1}: unboxing the new phone"`}
+              value={value}
+              onChange={e => onPromptChange(index, e.target.value)}
+              disabled={disabled}
+            />
+          ))}
+        </div>
+        <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+          <div className="space-y-1">
+            <Label htmlFor="batch-vision-review">AI consistency review</Label>
+            <p className="text-xs text-muted-foreground">
+              Have a vision model judge every result against the series and
+              reference, in addition to the quick color and layout check.
+            </p>
+          </div>
+          <Switch
+            id="batch-vision-review"
+            checked={visionReview}
+            onCheckedChange={onVisionReviewChange}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
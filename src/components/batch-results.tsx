@@ -0,0 +1,182 @@
+'use client';
+
+import Image from 'next/image';
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Layers,
+  RotateCcw,
+  ShieldAlert,
+} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Label} from '@/components/ui/label';
+import {Badge} from '@/components/ui/badge';
+import type {BatchGenerateOutput} from '@/ai/flows/batch-generate-thumbnails';
+import type {ConsistencyReport} from '@/ai/schemas/consistency';
+import {cn} from '@/lib/utils';
+
+interface BatchResultsProps {
+  thumbnails: BatchGenerateOutput['thumbnails'];
+  statuses: BatchGenerateOutput['results'];
+  consistency: ConsistencyReport | null;
+  current: number;
+  onSelect: (position: number) => void;
+  onRetryFailed: () => void;
+  disabled: boolean;
+}
+
+export function BatchResults({
+  thumbnails,
+  statuses,
+  consistency,
+  current,
+  onSelect,
+  onRetryFailed,
+  disabled,
+}: BatchResultsProps) {
+  if (statuses.length === 0) return null;
+
+  const failedCount = statuses.filter(item => item.status !== 'ok').length;
+  const outlierCount =
+    consistency?.items.filter(item => item.outlier).length ?? 0;
+
+  return (
+    <div className="w-full max-w-2xl mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <Label className="font-semibold flex items-center gap-2 text-base">
+          <Layers className="w-5 h-5" />
+          Batch Results
+          {consistency && (
+            <Badge
+              variant={outlierCount ? 'destructive' : 'secondary'}
+              className="ml-1"
+              title={`Scored with ${consistency.method === 'vision' ? 'vision-model review and ' : ''}local color/layout metrics`}
+            >
+              {formatScore(consistency.score)} consistent
+              {outlierCount > 0 && ` · ${outlierCount} off-model`}
+            </Badge>
+          )}
+        </Label>
+        <div className="flex items-center gap-2">
+          {failedCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRetryFailed}
+              disabled={disabled}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry failed ({failedCount})
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onSelect(current - 1)}
+            disabled={current <= 0}
+            aria-label="Previous thumbnail"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground tabular-nums">
+            {thumbnails.length ? current + 1 : 0} / {thumbnails.length}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onSelect(current + 1)}
+            disabled={current >= thumbnails.length - 1}
+            aria-label="Next thumbnail"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {statuses.map(status => {
+          const position = thumbnails.findIndex(
+            item => item.index === status.index
+          );
+          const item = thumbnails[position];
+          const score = consistency?.items.find(
+            entry => entry.index === status.index
+          );
+
+          if (!item) {
+            const blocked = status.status === 'blocked';
+            return (
+              <div
+                key={status.index}
+                className="relative flex aspect-square flex-col items-center justify-center gap-1 overflow-hidden rounded-lg border-2 border-dashed border-destructive/50 bg-destructive/5 p-2 text-center"
+                title={status.error}
+              >
+                {blocked ? (
+                  <ShieldAlert className="h-6 w-6 text-destructive" />
+                ) : (
+                  <AlertTriangle className="h-6 w-6 text-destructive" />
+                )}
+                <span className="text-xs font-semibold text-destructive">
+                  #{status.index + 1} {blocked ? 'Blocked' : 'Failed'}
+                </span>
+                <span className="line-clamp-3 text-[11px] text-muted-foreground">
+                  {status.error}
+                </span>
+              </div>
+            );
+          }
+
+          return (
+            <button
+              key={status.index}
+              type="button"
+              onClick={() => onSelect(position)}
+              className={cn(
+                'group relative aspect-square overflow-hidden rounded-lg border-2 transition-colors',
+                position === current
+                  ? 'border-primary'
+                  : score?.outlier
+                    ? 'border-destructive'
+                    : 'border-transparent hover:border-primary/50'
+              )}
+              title={score?.notes}
+            >
+              <Image
+                src={item.image}
+                alt={`Batch thumbnail ${item.index + 1}`}
+                fill
+                className="object-cover transition-transform group-hover:scale-105"
+              />
+              {score && (
+                <div className="absolute right-1 top-1">
+                  <Badge
+                    variant={score.outlier ? 'destructive' : 'secondary'}
+                    className="text-xs"
+                  >
+                    {score.outlier && (
+                      <AlertTriangle className="mr-1 h-3 w-3" />
+                    )}
+                    {formatScore(score.score)}
+                  </Badge>
+                </div>
+              )}
+              <div className="absolute bottom-1 left-1 right-1">
+                <Badge
+                  variant="secondary"
+                  className="text-xs truncate max-w-full"
+                >
+                  #{item.index + 1} {item.prompt}
+                </Badge>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function formatScore(score: number) {
+  return `${Math.round(score * 100)}%`;
+}
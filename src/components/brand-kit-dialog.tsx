@@ -0,0 +1,302 @@
+'use client';
+
+import {useEffect, useState, type ChangeEvent} from 'react';
+import Image from 'next/image';
+import {Palette, Trash2, Upload} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Input} from '@/components/ui/input';
+import {Label} from '@/components/ui/label';
+import {Textarea} from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  LOGO_CORNERS,
+  createBrandKit,
+  type LogoCorner,
+  type WorkspaceBrandKit,
+} from '@/lib/brand-kit';
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+/** Form state; list fields are edited as text and split on save. */
+interface BrandKitForm {
+  logo?: string;
+  logoCorner: LogoCorner;
+  primaryColor: string;
+  secondaryColor: string;
+  fonts: string;
+  tone: string;
+  dos: string;
+  donts: string;
+}
+
+function toForm(kit: WorkspaceBrandKit): BrandKitForm {
+  return {
+    logo: kit.logo,
+    logoCorner: kit.logoCorner,
+    primaryColor: kit.primaryColor ?? '',
+    secondaryColor: kit.secondaryColor ?? '',
+    fonts: kit.fonts.join(', '),
+    tone: kit.tone.join(', '),
+    dos: kit.dos.join('\n'),
+    donts: kit.donts.join('\n'),
+  };
+}
+
+const split = (value: string, separator: RegExp) =>
+  value
+    .split(separator)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+function fromForm(form: BrandKitForm): WorkspaceBrandKit {
+  return {
+    logo: form.logo,
+    logoCorner: form.logoCorner,
+    primaryColor: form.primaryColor.trim() || undefined,
+    secondaryColor: form.secondaryColor.trim() || undefined,
+    fonts: split(form.fonts, /,/),
+    tone: split(form.tone, /,/),
+    dos: split(form.dos, /\n/),
+    donts: split(form.donts, /\n/),
+  };
+}
+
+interface BrandKitDialogProps {
+  projectName: string | undefined;
+  brandKit: WorkspaceBrandKit | undefined;
+  /** null removes the project's brand kit. */
+  onSave: (brandKit: WorkspaceBrandKit | null) => Promise<void>;
+  disabled: boolean;
+}
+
+export function BrandKitDialog({
+  projectName,
+  brandKit,
+  onSave,
+  disabled,
+}: BrandKitDialogProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [form, setForm] = useState<BrandKitForm>(toForm(createBrandKit()));
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (open) setForm(toForm(brandKit ?? createBrandKit()));
+  }, [open, brandKit]);
+
+  const update = (changes: Partial<BrandKitForm>) =>
+    setForm(prev => ({...prev, ...changes}));
+
+  const handleLogoUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update({logo: reader.result as string});
+    reader.readAsDataURL(file);
+  };
+
+  const invalidColor = [form.primaryColor, form.secondaryColor].some(
+    color => color.trim() && !HEX_COLOR.test(color.trim())
+  );
+
+  const save = async (kit: WorkspaceBrandKit | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(kit);
+      setOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const colorField = (
+    key: 'primaryColor' | 'secondaryColor',
+    label: string,
+    fallback: string
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={`brand-${key}`}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          aria-label={`${label} picker`}
+          value={HEX_COLOR.test(form[key]) ? form[key] : fallback}
+          onChange={e => update({[key]: e.target.value})}
+          className="h-10 w-10 shrink-0 cursor-pointer rounded-md border bg-transparent"
+        />
+        <Input
+          id={`brand-${key}`}
+          placeholder={fallback}
+          value={form[key]}
+          onChange={e => update({[key]: e.target.value})}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        aria-label="Brand kit"
+      >
+        <Palette className={brandKit ? 'h-4 w-4 text-primary' : 'h-4 w-4'} />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Brand kit</DialogTitle>
+            <DialogDescription>
+              Applied to every prompt, generation, edit, batch and fusion in{' '}
+              {projectName ?? 'this project'}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Logo</Label>
+              <div className="flex items-center gap-3">
+                {form.logo ? (
+                  <div className="relative h-14 w-14 overflow-hidden rounded-md border bg-muted/30">
+                    <Image
+                      src={form.logo}
+                      alt="Brand logo"
+                      fill
+                      className="object-contain"
+                    />
+                  </div>
+                ) : null}
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="mr-2 h-4 w-4" />
+                    {form.logo ? 'Replace' : 'Upload'}
+                    <input
+                      type="file"
+                      accept="image/png,image/webp,image/svg+xml,image/jpeg"
+                      className="sr-only"
+                      onChange={handleLogoUpload}
+                    />
+                  </label>
+                </Button>
+                {form.logo && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({logo: undefined})}
+                  >
+                    Remove
+                  </Button>
+                )}
+                <Select
+                  value={form.logoCorner}
+                  onValueChange={value => update({logoCorner: value as LogoCorner})}
+                >
+                  <SelectTrigger className="ml-auto w-36" aria-label="Logo corner">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOGO_CORNERS.map(corner => (
+                      <SelectItem key={corner.value} value={corner.value}>
+                        {corner.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Stamped onto exports in the chosen corner; it is never sent to
+                the model.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {colorField('primaryColor', 'Primary color', '#ff0055')}
+              {colorField('secondaryColor', 'Secondary color', '#111111')}
+            </div>
+            {invalidColor && (
+              <p className="text-sm text-destructive">
+                Colors must be 6-digit hex codes, e.g. #ff0055.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="brand-fonts">Fonts</Label>
+              <Input
+                id="brand-fonts"
+                placeholder="e.g., Anton, Inter"
+                value={form.fonts}
+                onChange={e => update({fonts: e.target.value})}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brand-tone">Tone</Label>
+              <Input
+                id="brand-tone"
+                placeholder="e.g., bold, playful, high-energy"
+                value={form.tone}
+                onChange={e => update({tone: e.target.value})}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="brand-dos">Do</Label>
+                <Textarea
+                  id="brand-dos"
+                  rows={4}
+                  placeholder={'One rule per line, e.g.\nShow the host\'s face'}
+                  value={form.dos}
+                  onChange={e => update({dos: e.target.value})}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="brand-donts">Don&apos;t</Label>
+                <Textarea
+                  id="brand-donts"
+                  rows={4}
+                  placeholder={'One rule per line, e.g.\nUse red arrows'}
+                  value={form.donts}
+                  onChange={e => update({donts: e.target.value})}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            {brandKit ? (
+              <Button
+                variant="ghost"
+                onClick={() => save(null)}
+                disabled={isSaving}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove brand kit
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button
+              onClick={() => save(fromForm(form))}
+              disabled={isSaving || invalidColor}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import Image from 'next/image';
+import {Check, Columns2, Star, Trash2} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Label} from '@/components/ui/label';
+import {Badge} from '@/components/ui/badge';
+import {cn} from '@/lib/utils';
+
+export interface Candidate {
+  image: string;
+  starred: boolean;
+}
+
+interface CandidateCompareProps {
+  candidates: Candidate[];
+  winner: string | null;
+  aspectRatioClass: string;
+  onPick: (image: string) => void;
+  onToggleStar: (image: string) => void;
+  onDiscard: (image: string) => void;
+  onDiscardRest: () => void;
+  disabled: boolean;
+}
+
+export function CandidateCompare({
+  candidates,
+  winner,
+  aspectRatioClass,
+  onPick,
+  onToggleStar,
+  onDiscard,
+  onDiscardRest,
+  disabled,
+}: CandidateCompareProps) {
+  if (candidates.length < 2) return null;
+
+  const discardable = candidates.filter(
+    candidate => !candidate.starred && candidate.image !== winner
+  ).length;
+
+  return (
+    <div className="w-full max-w-2xl mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <Label className="font-semibold flex items-center gap-2 text-base">
+          <Columns2 className="w-5 h-5" />
+          Compare Candidates
+        </Label>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onDiscardRest}
+          disabled={disabled || discardable === 0}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          Discard the rest ({discardable})
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {candidates.map((candidate, index) => {
+          const isWinner = candidate.image === winner;
+          return (
+            <div
+              key={index}
+              className={cn(
+                'group relative overflow-hidden rounded-lg border-2 transition-colors',
+                aspectRatioClass,
+                isWinner
+                  ? 'border-primary'
+                  : 'border-transparent hover:border-primary/50'
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onPick(candidate.image)}
+                disabled={disabled}
+                className="absolute inset-0"
+                aria-label={`Pick candidate ${index + 1}`}
+              >
+                <Image
+                  src={candidate.image}
+                  alt={`Candidate ${index + 1}`}
+                  fill
+                  className="object-cover"
+                />
+              </button>
+              <div className="absolute left-1 top-1">
+                <Badge variant={isWinner ? 'default' : 'secondary'}>
+                  {isWinner && <Check className="mr-1 h-3 w-3" />}
+                  {isWinner ? 'Winner' : `#${index + 1}`}
+                </Badge>
+              </div>
+              <div className="absolute right-1 top-1 flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => onToggleStar(candidate.image)}
+                  disabled={disabled}
+                  className={cn(
+                    'flex h-7 w-7 items-center justify-center rounded-full bg-background/80 transition-colors',
+                    candidate.starred
+                      ? 'text-accent'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                  aria-label={candidate.starred ? 'Unstar' : 'Star'}
+                >
+                  <Star
+                    className="h-4 w-4"
+                    fill={candidate.starred ? 'currentColor' : 'none'}
+                  />
+                </button>
+                {!isWinner && (
+                  <button
+                    type="button"
+                    onClick={() => onDiscard(candidate.image)}
+                    disabled={disabled}
+                    className="flex h-7 w-7 items-center justify-center rounded-full bg-background/80 text-muted-foreground opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+                    aria-label="Discard candidate"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
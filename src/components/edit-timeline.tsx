@@ -0,0 +1,114 @@
+'use client';
+
+import Image from 'next/image';
+import {format} from 'date-fns';
+import {GitBranch, Redo2, Undo2} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Label} from '@/components/ui/label';
+import {Badge} from '@/components/ui/badge';
+import type {Lineage} from '@/lib/edit-lineage';
+import type {GenerationRecord} from '@/lib/storage';
+import {cn} from '@/lib/utils';
+
+interface EditTimelineProps {
+  lineage: Lineage;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (record: GenerationRecord) => void;
+  disabled: boolean;
+}
+
+export function EditTimeline({
+  lineage,
+  canRedo,
+  onUndo,
+  onRedo,
+  onSelect,
+  disabled,
+}: EditTimelineProps) {
+  if (lineage.nodes.length < 2) return null;
+
+  const branches = lineage.nodes.filter(
+    (node, i) => i > 0 && node.depth <= lineage.nodes[i - 1].depth
+  ).length;
+
+  return (
+    <div className="w-full max-w-2xl mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <Label className="font-semibold flex items-center gap-2 text-base">
+          <GitBranch className="w-5 h-5" />
+          Version History
+          <span className="text-sm font-normal text-muted-foreground">
+            {lineage.nodes.length} versions
+            {branches > 0 && ` · ${branches + 1} branches`}
+          </span>
+        </Label>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={onUndo}
+            disabled={disabled || !lineage.parent}
+            aria-label="Undo edit"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={onRedo}
+            disabled={disabled || !canRedo}
+            aria-label="Redo edit"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <ol className="max-h-80 space-y-1 overflow-y-auto rounded-lg border bg-background p-2">
+        {lineage.nodes.map(({record, depth, onPath}) => {
+          const isCurrent = record.id === lineage.current.id;
+          return (
+            <li key={record.id} style={{paddingLeft: `${depth * 1.25}rem`}}>
+              <button
+                type="button"
+                onClick={() => onSelect(record)}
+                disabled={disabled || isCurrent}
+                className={cn(
+                  'flex w-full items-center gap-3 rounded-md border-l-2 p-1.5 text-left transition-colors',
+                  isCurrent
+                    ? 'border-primary bg-primary/10'
+                    : onPath
+                      ? 'border-primary/40 hover:bg-muted'
+                      : 'border-transparent hover:bg-muted'
+                )}
+              >
+                <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded">
+                  <Image
+                    src={record.image}
+                    alt={record.parentId ? record.prompt : 'Original'}
+                    fill
+                    className="object-cover"
+                  />
+                </div>
+                <span className="min-w-0 flex-1 truncate text-sm">
+                  {record.parentId ? record.prompt : 'Original'}
+                </span>
+                {isCurrent && <Badge className="text-xs">Current</Badge>}
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {format(record.timestamp, 'HH:mm')}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      <p className="mt-2 text-xs text-muted-foreground">
+        Select any earlier version and refine it to start a new branch.
+      </p>
+    </div>
+  );
+}
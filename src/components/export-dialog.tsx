@@ -0,0 +1,261 @@
+'use client';
+
+import {useEffect, useState} from 'react';
+import {AlertTriangle, Download, Loader2} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Input} from '@/components/ui/input';
+import {Label} from '@/components/ui/label';
+import {Switch} from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  EXPORT_PRESETS,
+  defaultPresetFor,
+  exportImage,
+  fileExtensionFor,
+  formatBytes,
+  type ExportFormat,
+} from '@/lib/export-image';
+import {LOGO_CORNERS, type LogoCorner, type WorkspaceBrandKit} from '@/lib/brand-kit';
+
+const FORMATS: Array<{value: ExportFormat; label: string}> = [
+  {value: 'image/jpeg', label: 'JPEG'},
+  {value: 'image/png', label: 'PNG'},
+  {value: 'image/webp', label: 'WebP'},
+];
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  aspectRatio: string;
+  /** Produces the image to export, e.g. with text layers flattened in. */
+  prepareImage: () => Promise<string>;
+  /** The workspace brand kit; offers a logo stamp when it has a logo. */
+  brandKit?: WorkspaceBrandKit;
+  onError: (message: string) => void;
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  aspectRatio,
+  prepareImage,
+  brandKit,
+  onError,
+}: ExportDialogProps) {
+  const [presetId, setPresetId] = useState<string>(
+    defaultPresetFor(aspectRatio).id
+  );
+  const [format, setFormat] = useState<ExportFormat>('image/jpeg');
+  const [maxSizeMb, setMaxSizeMb] = useState<string>('2');
+  const [stampLogo, setStampLogo] = useState<boolean>(false);
+  const [logoCorner, setLogoCorner] = useState<LogoCorner>('top-left');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [lastExport, setLastExport] = useState<{
+    bytes: number;
+    withinLimit: boolean;
+    quality?: number;
+  } | null>(null);
+
+  const applyPreset = (id: string) => {
+    const preset = EXPORT_PRESETS.find(entry => entry.id === id);
+    if (!preset) return;
+    setPresetId(id);
+    setFormat(preset.format);
+    setMaxSizeMb(preset.maxBytes ? String(preset.maxBytes / (1024 * 1024)) : '');
+    setLastExport(null);
+  };
+
+  // Re-pick the platform whenever the dialog opens for a different ratio.
+  useEffect(() => {
+    if (open) applyPreset(defaultPresetFor(aspectRatio).id);
+  }, [open, aspectRatio]);
+
+  // Stamp by default whenever the workspace has a logo.
+  useEffect(() => {
+    if (!open) return;
+    setStampLogo(!!brandKit?.logo);
+    setLogoCorner(brandKit?.logoCorner ?? 'top-left');
+  }, [open, brandKit]);
+
+  const preset = EXPORT_PRESETS.find(entry => entry.id === presetId);
+
+  const handleExport = async () => {
+    if (!preset) return;
+    setIsExporting(true);
+    try {
+      const maxBytes = Number(maxSizeMb) > 0 ? Number(maxSizeMb) * 1024 * 1024 : undefined;
+      const result = await exportImage(await prepareImage(), {
+        width: preset.width,
+        height: preset.height,
+        format,
+        maxBytes,
+        logo:
+          stampLogo && brandKit?.logo
+            ? {image: brandKit.logo, corner: logoCorner}
+            : undefined,
+      });
+      setLastExport({
+        bytes: result.blob.size,
+        withinLimit: result.withinLimit,
+        quality: result.quality,
+      });
+
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `thumbnail-${preset.id}-${result.width}x${result.height}-${Date.now()}.${fileExtensionFor(format)}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      onError((error as Error).message);
+    }
+    setIsExporting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export thumbnail</DialogTitle>
+          <DialogDescription>
+            Resize to a platform&apos;s exact dimensions and compress under its
+            upload limit.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-preset">Platform</Label>
+            <Select value={presetId} onValueChange={applyPreset}>
+              <SelectTrigger id="export-preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_PRESETS.map(entry => (
+                  <SelectItem key={entry.id} value={entry.id}>
+                    {entry.label}
+                    {entry.width && ` (${entry.width}×${entry.height})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-format">Format</Label>
+              <Select
+                value={format}
+                onValueChange={value => {
+                  setFormat(value as ExportFormat);
+                  setLastExport(null);
+                }}
+              >
+                <SelectTrigger id="export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMATS.map(entry => (
+                    <SelectItem key={entry.value} value={entry.value}>
+                      {entry.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-max-size">Max file size (MB)</Label>
+              <Input
+                id="export-max-size"
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="No limit"
+                value={maxSizeMb}
+                onChange={e => {
+                  setMaxSizeMb(e.target.value);
+                  setLastExport(null);
+                }}
+              />
+            </div>
+          </div>
+          {brandKit?.logo && (
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="export-stamp-logo"
+                  checked={stampLogo}
+                  onCheckedChange={setStampLogo}
+                />
+                <Label htmlFor="export-stamp-logo">Stamp brand logo</Label>
+              </div>
+              <Select
+                value={logoCorner}
+                onValueChange={value => setLogoCorner(value as LogoCorner)}
+                disabled={!stampLogo}
+              >
+                <SelectTrigger className="w-36" aria-label="Logo corner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOGO_CORNERS.map(corner => (
+                    <SelectItem key={corner.value} value={corner.value}>
+                      {corner.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {preset?.width && (
+            <p className="text-xs text-muted-foreground">
+              The image is center-cropped to fill {preset.width}×{preset.height}
+              {aspectRatio && ` from your ${aspectRatio} design`}.
+            </p>
+          )}
+          {lastExport && (
+            <p
+              className={
+                lastExport.withinLimit
+                  ? 'text-sm text-muted-foreground'
+                  : 'flex items-center gap-2 text-sm text-destructive'
+              }
+            >
+              {!lastExport.withinLimit && <AlertTriangle className="h-4 w-4" />}
+              Exported {formatBytes(lastExport.bytes)}
+              {lastExport.quality !== undefined &&
+                ` at ${Math.round(lastExport.quality * 100)}% quality`}
+              {!lastExport.withinLimit &&
+                ' - still over the size limit; try JPEG or WebP'}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={isExporting || !preset}>
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import {Combine} from 'lucide-react';
+
+import {Label} from '@/components/ui/label';
+import {Badge} from '@/components/ui/badge';
+import type {IntelligentFusionOutput} from '@/ai/flows/intelligent-fusion';
+
+interface FusionDetailsProps {
+  result: Pick<
+    IntelligentFusionOutput,
+    'fusionDescription' | 'technicalDetails' | 'analysis'
+  >;
+}
+
+export function FusionDetails({result}: FusionDetailsProps) {
+  const {fusionDescription, technicalDetails, analysis} = result;
+
+  return (
+    <div className="w-full max-w-2xl mt-8 space-y-4 rounded-lg border bg-background p-4">
+      <Label className="font-semibold flex items-center gap-2 text-base">
+        <Combine className="w-5 h-5" />
+        Fusion Details
+      </Label>
+      <p className="text-sm">{fusionDescription}</p>
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">
+          Technique: {technicalDetails.fusionTechnique}
+        </Badge>
+        <Badge variant="outline">{technicalDetails.aspectRatioHandling}</Badge>
+      </div>
+      <div className="space-y-3">
+        <p className="text-sm font-medium">Source analysis</p>
+        {analysis.images.map(image => (
+          <div
+            key={image.index}
+            className="rounded-md border bg-muted/30 p-3 text-sm space-y-1"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">Image {image.index + 1}</span>
+              <Badge variant="outline">{image.suggestedRole}</Badge>
+            </div>
+            <p>{image.subject}</p>
+            <p className="text-muted-foreground">
+              {image.style} &middot; {image.lighting}
+            </p>
+            {image.palette.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {image.palette.map((color, i) => (
+                  <Badge key={i} variant="secondary" className="text-xs">
+                    {color}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {analysis.challenges.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Challenges addressed</p>
+          <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+            {analysis.challenges.map((challenge, index) => (
+              <li key={index}>{challenge}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
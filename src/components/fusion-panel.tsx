@@ -0,0 +1,229 @@
+'use client';
+
+import Image from 'next/image';
+import {Check, Crown} from 'lucide-react';
+
+import {Label} from '@/components/ui/label';
+import {Textarea} from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {IntelligentFusionInput} from '@/ai/flows/intelligent-fusion';
+import {cn} from '@/lib/utils';
+
+export const MIN_FUSION_IMAGES = 2;
+export const MAX_FUSION_IMAGES = 4;
+
+const FUSION_STYLES: Array<{
+  value: IntelligentFusionInput['fusionStyle'];
+  label: string;
+}> = [
+  {value: 'seamless', label: 'Seamless - natural, unified scene'},
+  {value: 'collage', label: 'Collage - clear panels, one layout'},
+  {value: 'overlay', label: 'Overlay - layered transparency'},
+  {value: 'blend', label: 'Blend - mixed visual elements'},
+  {value: 'composite', label: 'Composite - best parts of each'},
+];
+
+const CREATIVITY_LEVELS: Array<{
+  value: IntelligentFusionInput['creativityLevel'];
+  label: string;
+}> = [
+  {value: 'conservative', label: 'Conservative'},
+  {value: 'balanced', label: 'Balanced'},
+  {value: 'creative', label: 'Creative'},
+  {value: 'experimental', label: 'Experimental'},
+];
+
+interface FusionPanelProps {
+  sources: string[];
+  selected: string[];
+  onToggle: (src: string) => void;
+  dominant: string | null;
+  onDominantChange: (src: string | null) => void;
+  fusionPrompt: string;
+  onFusionPromptChange: (value: string) => void;
+  fusionStyle: IntelligentFusionInput['fusionStyle'];
+  onFusionStyleChange: (value: IntelligentFusionInput['fusionStyle']) => void;
+  creativityLevel: IntelligentFusionInput['creativityLevel'];
+  onCreativityLevelChange: (
+    value: IntelligentFusionInput['creativityLevel']
+  ) => void;
+  disabled: boolean;
+}
+
+export function FusionPanel({
+  sources,
+  selected,
+  onToggle,
+  dominant,
+  onDominantChange,
+  fusionPrompt,
+  onFusionPromptChange,
+  fusionStyle,
+  onFusionStyleChange,
+  creativityLevel,
+  onCreativityLevelChange,
+  disabled,
+}: FusionPanelProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-lg font-semibold">
+            2. Pick images to fuse
+          </Label>
+          <span className="text-sm text-muted-foreground">
+            {selected.length} / {MAX_FUSION_IMAGES} selected
+          </span>
+        </div>
+        {sources.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Upload images above or generate some thumbnails to use them as
+            fusion sources.
+          </p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+            {sources.map((src, index) => {
+              const order = selected.indexOf(src);
+              const isSelected = order !== -1;
+              const isDominant = dominant === src;
+              return (
+                <div
+                  key={index}
+                  className={cn(
+                    'group relative aspect-square overflow-hidden rounded-lg border-2 transition-colors',
+                    isSelected
+                      ? 'border-primary'
+                      : 'border-transparent hover:border-primary/50'
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onToggle(src)}
+                    disabled={
+                      disabled ||
+                      (!isSelected && selected.length >= MAX_FUSION_IMAGES)
+                    }
+                    className="absolute inset-0 disabled:cursor-not-allowed"
+                    aria-label={`${isSelected ? 'Deselect' : 'Select'} source image ${index + 1}`}
+                  >
+                    <Image
+                      src={src}
+                      alt={`Fusion source ${index + 1}`}
+                      fill
+                      className="object-cover"
+                    />
+                  </button>
+                  {isSelected && (
+                    <>
+                      <div className="absolute left-1 top-1 flex h-6 w-6 items-center justify-center rounded-full bg-primary text-xs font-semibold text-primary-foreground">
+                        {order + 1}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          onDominantChange(isDominant ? null : src)
+                        }
+                        disabled={disabled}
+                        className={cn(
+                          'absolute right-1 top-1 z-10 flex h-6 w-6 items-center justify-center rounded-full transition-colors',
+                          isDominant
+                            ? 'bg-accent text-accent-foreground'
+                            : 'bg-background/80 text-muted-foreground hover:text-foreground'
+                        )}
+                        aria-label={
+                          isDominant
+                            ? 'Unset dominant image'
+                            : 'Use as dominant image'
+                        }
+                      >
+                        {isDominant ? (
+                          <Crown className="h-3.5 w-3.5" />
+                        ) : (
+                          <Check className="h-3.5 w-3.5" />
+                        )}
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Select {MIN_FUSION_IMAGES}-{MAX_FUSION_IMAGES} images. Use the badge
+          in the corner of a selected image to make it the dominant base
+          composition.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <Label htmlFor="fusion-prompt" className="text-lg font-semibold">
+          3. Describe the fusion
+        </Label>
+        <Textarea
+          id="fusion-prompt"
+          placeholder="e.g., Put the presenter from image 1 into the neon city from image 2, holding the product from image 3..."
+          value={fusionPrompt}
+          onChange={e => onFusionPromptChange(e.target.value)}
+          rows={4}
+          className="text-base"
+          disabled={disabled}
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="fusion-style">Fusion style</Label>
+            <Select
+              value={fusionStyle}
+              onValueChange={value =>
+                onFusionStyleChange(
+                  value as IntelligentFusionInput['fusionStyle']
+                )
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger id="fusion-style">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FUSION_STYLES.map(style => (
+                  <SelectItem key={style.value} value={style.value}>
+                    {style.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fusion-creativity">Creativity</Label>
+            <Select
+              value={creativityLevel}
+              onValueChange={value =>
+                onCreativityLevelChange(
+                  value as IntelligentFusionInput['creativityLevel']
+                )
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger id="fusion-creativity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CREATIVITY_LEVELS.map(level => (
+                  <SelectItem key={level.value} value={level.value}>
+                    {level.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
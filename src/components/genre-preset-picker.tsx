@@ -0,0 +1,212 @@
+'use client';
+
+import {useState, type FormEvent} from 'react';
+import {BookmarkPlus, LayoutTemplate, Trash2} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Input} from '@/components/ui/input';
+import {Label} from '@/components/ui/label';
+import {Textarea} from '@/components/ui/textarea';
+import {Badge} from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {GenrePreset} from '@/lib/genre-presets';
+
+const NO_PRESET = 'none';
+
+interface GenrePresetPickerProps {
+  presets: GenrePreset[];
+  selected: GenrePreset | null;
+  onSelect: (preset: GenrePreset | null) => void;
+  /** Saves the current prompt, aspect ratio and consistency mode as a preset. */
+  onSave: (preset: {label: string; scaffolding: string; exampleOutput: string}) => void;
+  onDelete: (id: string) => void;
+  /** Pre-fills the scaffolding of a new preset. */
+  defaultScaffolding: string;
+  disabled: boolean;
+}
+
+export function GenrePresetPicker({
+  presets,
+  selected,
+  onSelect,
+  onSave,
+  onDelete,
+  defaultScaffolding,
+  disabled,
+}: GenrePresetPickerProps) {
+  const [isSaveOpen, setIsSaveOpen] = useState<boolean>(false);
+  const [label, setLabel] = useState<string>('');
+  const [scaffolding, setScaffolding] = useState<string>('');
+  const [exampleOutput, setExampleOutput] = useState<string>('');
+
+  const builtIn = presets.filter(preset => !preset.custom);
+  const custom = presets.filter(preset => preset.custom);
+
+  const openSaveDialog = () => {
+    setLabel('');
+    setScaffolding(defaultScaffolding);
+    setExampleOutput('');
+    setIsSaveOpen(true);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!label.trim() || !scaffolding.trim()) return;
+    onSave({
+      label: label.trim(),
+      scaffolding: scaffolding.trim(),
+      exampleOutput: exampleOutput.trim(),
+    });
+    setIsSaveOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <LayoutTemplate className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <Select
+          value={selected?.id ?? NO_PRESET}
+          onValueChange={id =>
+            onSelect(presets.find(preset => preset.id === id) ?? null)
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger aria-label="Genre preset">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PRESET}>No genre preset</SelectItem>
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>Genres</SelectLabel>
+              {builtIn.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {custom.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Your presets</SelectLabel>
+                {custom.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={openSaveDialog}
+          disabled={disabled}
+          aria-label="Save as preset"
+        >
+          <BookmarkPlus className="h-4 w-4" />
+        </Button>
+        {selected?.custom && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => {
+              onDelete(selected.id);
+              onSelect(null);
+            }}
+            disabled={disabled}
+            aria-label="Delete preset"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {selected && (
+        <div className="space-y-1 rounded-md border bg-muted/30 p-3 text-xs text-muted-foreground">
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary">{selected.aspectRatio}</Badge>
+            {selected.consistencyMode !== 'none' && (
+              <Badge variant="secondary">
+                {selected.consistencyMode} consistency
+              </Badge>
+            )}
+          </div>
+          <p>{selected.scaffolding}</p>
+          {selected.exampleOutput && (
+            <p>
+              <span className="font-medium text-foreground">Example: </span>
+              {selected.exampleOutput}
+            </p>
+          )}
+        </div>
+      )}
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Save as preset</DialogTitle>
+              <DialogDescription>
+                Keeps the current aspect ratio and consistency mode. The
+                scaffolding guides prompt optimization without replacing your
+                prompt.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="preset-label">Name</Label>
+              <Input
+                id="preset-label"
+                autoFocus
+                placeholder="e.g., Speedrun highlights"
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-scaffolding">Scaffolding</Label>
+              <Textarea
+                id="preset-scaffolding"
+                rows={4}
+                placeholder="What thumbnails in this genre should show and how they are composed."
+                value={scaffolding}
+                onChange={e => setScaffolding(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-example">Example output (optional)</Label>
+              <Textarea
+                id="preset-example"
+                rows={2}
+                placeholder="Describe a thumbnail that nails this genre."
+                value={exampleOutput}
+                onChange={e => setExampleOutput(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!label.trim() || !scaffolding.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import {useEffect, useRef, useState, type PointerEvent} from 'react';
+import {Brush, Eraser, RectangleHorizontal, Trash2} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Label} from '@/components/ui/label';
+import {Slider} from '@/components/ui/slider';
+import {cn} from '@/lib/utils';
+
+export type MaskTool = 'brush' | 'rect' | 'eraser';
+
+const PAINT_COLOR = 'rgba(239, 68, 68, 1)';
+
+interface MaskCanvasProps {
+  image: string;
+  tool: MaskTool;
+  brushSize: number;
+  /** Called with a black/white PNG data URI at the image's native size, or null when empty. */
+  onMaskChange: (mask: string | null) => void;
+  disabled: boolean;
+}
+
+/**
+ * Paintable overlay for the preview. Sits on top of an `object-cover` image and
+ * maps pointer positions into the image's own pixel space.
+ */
+export function MaskCanvas({
+  image,
+  tool,
+  brushSize,
+  onMaskChange,
+  disabled,
+}: MaskCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drag = useRef<{
+    start: {x: number; y: number};
+    last: {x: number; y: number};
+    snapshot: ImageData;
+  } | null>(null);
+  const [size, setSize] = useState<{width: number; height: number} | null>(
+    null
+  );
+
+  useEffect(() => {
+    const img = new window.Image();
+    img.onload = () => setSize({width: img.naturalWidth, height: img.naturalHeight});
+    img.src = image;
+  }, [image]);
+
+  const toImagePoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    // Same math as object-fit: cover.
+    const scale = Math.max(rect.width / canvas.width, rect.height / canvas.height);
+    const offsetX = (rect.width - canvas.width * scale) / 2;
+    const offsetY = (rect.height - canvas.height * scale) / 2;
+    return {
+      x: (event.clientX - rect.left - offsetX) / scale,
+      y: (event.clientY - rect.top - offsetY) / scale,
+      scale,
+    };
+  };
+
+  const paintLine = (
+    ctx: CanvasRenderingContext2D,
+    from: {x: number; y: number},
+    to: {x: number; y: number},
+    width: number
+  ) => {
+    ctx.globalCompositeOperation =
+      tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = PAINT_COLOR;
+    ctx.lineWidth = width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const ctx = event.currentTarget.getContext('2d');
+    if (!ctx) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toImagePoint(event);
+    drag.current = {
+      start: point,
+      last: point,
+      snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height),
+    };
+    if (tool !== 'rect') paintLine(ctx, point, point, brushSize / point.scale);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const ctx = event.currentTarget.getContext('2d');
+    if (!ctx || !drag.current) return;
+    const point = toImagePoint(event);
+    if (tool === 'rect') {
+      const {start, snapshot} = drag.current;
+      ctx.putImageData(snapshot, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = PAINT_COLOR;
+      ctx.fillRect(start.x, start.y, point.x - start.x, point.y - start.y);
+    } else {
+      paintLine(ctx, drag.current.last, point, brushSize / point.scale);
+    }
+    drag.current.last = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!drag.current) return;
+    drag.current = null;
+    onMaskChange(exportMask(canvasRef.current));
+  };
+
+  if (!size) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size.width}
+      height={size.height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={cn(
+        'absolute inset-0 h-full w-full cursor-crosshair touch-none object-cover opacity-50',
+        disabled && 'pointer-events-none'
+      )}
+    />
+  );
+}
+
+/** Converts painted pixels to white and everything else to black. */
+function exportMask(canvas: HTMLCanvasElement | null): string | null {
+  const ctx = canvas?.getContext('2d');
+  if (!canvas || !ctx) return null;
+  const painted = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const mask = new ImageData(canvas.width, canvas.height);
+  let any = false;
+  for (let i = 0; i < painted.data.length; i += 4) {
+    const on = painted.data[i + 3] > 0 ? 255 : 0;
+    if (on) any = true;
+    mask.data[i] = mask.data[i + 1] = mask.data[i + 2] = on;
+    mask.data[i + 3] = 255;
+  }
+  if (!any) return null;
+  const out = document.createElement('canvas');
+  out.width = canvas.width;
+  out.height = canvas.height;
+  out.getContext('2d')!.putImageData(mask, 0, 0);
+  return out.toDataURL('image/png');
+}
+
+interface MaskToolbarProps {
+  tool: MaskTool;
+  onToolChange: (tool: MaskTool) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  hasMask: boolean;
+  onClear: () => void;
+  disabled: boolean;
+}
+
+const TOOLS: Array<{value: MaskTool; label: string; icon: typeof Brush}> = [
+  {value: 'brush', label: 'Brush', icon: Brush},
+  {value: 'rect', label: 'Rectangle', icon: RectangleHorizontal},
+  {value: 'eraser', label: 'Eraser', icon: Eraser},
+];
+
+export function MaskToolbar({
+  tool,
+  onToolChange,
+  brushSize,
+  onBrushSizeChange,
+  hasMask,
+  onClear,
+  disabled,
+}: MaskToolbarProps) {
+  return (
+    <div className="space-y-3 rounded-lg border bg-background p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({value, label, icon: Icon}) => (
+          <Button
+            key={value}
+            variant={tool === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onToolChange(value)}
+            disabled={disabled}
+          >
+            <Icon className="mr-1 h-4 w-4" />
+            {label}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          disabled={disabled || !hasMask}
+          className="ml-auto"
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+      <div
+        className={cn(
+          'flex items-center gap-3',
+          tool === 'rect' && 'opacity-50'
+        )}
+      >
+        <Label className="shrink-0 text-xs">Brush size</Label>
+        <Slider
+          min={5}
+          max={120}
+          step={1}
+          value={[brushSize]}
+          onValueChange={([value]) => onBrushSizeChange(value)}
+          disabled={disabled || tool === 'rect'}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {hasMask
+          ? 'Only the highlighted area will change; everything else is kept exactly as it is.'
+          : 'Paint over the part of the thumbnail you want to change.'}
+      </p>
+    </div>
+  );
+}
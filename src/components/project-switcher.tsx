@@ -0,0 +1,142 @@
+'use client';
+
+import {useState, type FormEvent} from 'react';
+import {FolderOpen, FolderPlus, Pencil, Trash2} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Input} from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {Project} from '@/lib/storage';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeProject: Project | undefined;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  disabled: boolean;
+}
+
+export function ProjectSwitcher({
+  projects,
+  activeProject,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  disabled,
+}: ProjectSwitcherProps) {
+  const [dialog, setDialog] = useState<'create' | 'rename' | null>(null);
+  const [name, setName] = useState<string>('');
+
+  const openDialog = (kind: 'create' | 'rename') => {
+    setName(kind === 'rename' ? activeProject?.name ?? '' : '');
+    setDialog(kind);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (dialog === 'create') onCreate(trimmed);
+    if (dialog === 'rename' && activeProject) onRename(activeProject.id, trimmed);
+    setDialog(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeProject) return;
+    if (
+      window.confirm(
+        `Delete "${activeProject.name}" and all of its saved thumbnails?`
+      )
+    ) {
+      onDelete(activeProject.id);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <FolderOpen className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={activeProject?.id ?? ''}
+        onValueChange={onSelect}
+        disabled={disabled || projects.length === 0}
+      >
+        <SelectTrigger className="h-9 w-[180px]" aria-label="Project">
+          <SelectValue placeholder="Loading projects..." />
+        </SelectTrigger>
+        <SelectContent>
+          {projects.map(project => (
+            <SelectItem key={project.id} value={project.id}>
+              {project.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => openDialog('create')}
+        disabled={disabled}
+        aria-label="New project"
+      >
+        <FolderPlus className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => openDialog('rename')}
+        disabled={disabled || !activeProject}
+        aria-label="Rename project"
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleDelete}
+        disabled={disabled || !activeProject}
+        aria-label="Delete project"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={dialog !== null} onOpenChange={open => !open && setDialog(null)}>
+        <DialogContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {dialog === 'rename' ? 'Rename project' : 'New project'}
+              </DialogTitle>
+            </DialogHeader>
+            <Input
+              autoFocus
+              placeholder="e.g., Cooking channel - season 2"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim()}>
+                {dialog === 'rename' ? 'Save' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import {Check, Compass} from 'lucide-react';
+
+import {Label} from '@/components/ui/label';
+import {Badge} from '@/components/ui/badge';
+import {cn} from '@/lib/utils';
+import type {PromptAlternative} from '@/ai/flows/optimize-prompt';
+
+interface PromptAlternativesProps {
+  alternatives: PromptAlternative[];
+  /** The prompt currently in the editor; the matching card is shown as picked. */
+  selectedPrompt: string;
+  onSelect: (alternative: PromptAlternative) => void;
+  disabled: boolean;
+}
+
+export function PromptAlternatives({
+  alternatives,
+  selectedPrompt,
+  onSelect,
+  disabled,
+}: PromptAlternativesProps) {
+  if (alternatives.length < 2) return null;
+
+  return (
+    <div className="space-y-3">
+      <Label className="font-semibold flex items-center gap-2">
+        <Compass className="w-4 h-4" />
+        Pick a direction
+      </Label>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {alternatives.map((alternative, index) => {
+          const isSelected = alternative.prompt === selectedPrompt;
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelect(alternative)}
+              disabled={disabled}
+              aria-pressed={isSelected}
+              className={cn(
+                'relative flex flex-col gap-2 rounded-lg border-2 p-3 text-left transition-colors disabled:opacity-50',
+                isSelected
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary/50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <Badge variant={isSelected ? 'default' : 'secondary'}>
+                  {alternative.label}
+                </Badge>
+                {isSelected && <Check className="h-4 w-4 text-primary" />}
+              </div>
+              <p className="text-xs text-muted-foreground line-clamp-4">
+                {alternative.prompt}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
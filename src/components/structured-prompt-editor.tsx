@@ -0,0 +1,59 @@
+'use client';
+
+import {AlertTriangle} from 'lucide-react';
+
+import {Input} from '@/components/ui/input';
+import {Label} from '@/components/ui/label';
+import {Textarea} from '@/components/ui/textarea';
+import {PROMPT_FIELDS, type StructuredPrompt} from '@/lib/structured-prompt';
+
+interface StructuredPromptEditorProps {
+  structure: StructuredPrompt;
+  onChange: (structure: StructuredPrompt) => void;
+  /** True when the paragraph was edited by hand after it was assembled from the fields. */
+  paragraphEdited: boolean;
+  disabled: boolean;
+}
+
+/** One input per prompt field; the parent reassembles the paragraph on every change. */
+export function StructuredPromptEditor({
+  structure,
+  onChange,
+  paragraphEdited,
+  disabled,
+}: StructuredPromptEditorProps) {
+  return (
+    <div className="space-y-3">
+      {paragraphEdited && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          The paragraph was edited directly. Changing a field rebuilds it from
+          the fields and replaces those edits.
+        </p>
+      )}
+      {PROMPT_FIELDS.map(field => {
+        const id = `prompt-field-${field.key}`;
+        const props = {
+          id,
+          value: structure[field.key],
+          placeholder: field.hint,
+          disabled,
+          onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+            onChange({...structure, [field.key]: e.target.value}),
+        };
+        return (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={id} className="text-sm font-medium">
+              {field.label}
+            </Label>
+            {field.key === 'subject' ? (
+              <Textarea {...props} rows={2} className="bg-muted/30" />
+            ) : (
+              <Input {...props} className="bg-muted/30" />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+'use client';
+
+import {useEffect, useRef, useState, type PointerEvent} from 'react';
+import {Plus, Trash2, Type} from 'lucide-react';
+
+import {Button} from '@/components/ui/button';
+import {Input} from '@/components/ui/input';
+import {Label} from '@/components/ui/label';
+import {Slider} from '@/components/ui/slider';
+import {Switch} from '@/components/ui/switch';
+import {Textarea} from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  THUMBNAIL_FONTS,
+  createTextLayer,
+  drawTextLayers,
+  hitTestTextLayers,
+  loadLayerFonts,
+  measureTextLayer,
+  type TextLayer,
+} from '@/lib/text-layers';
+import {cn} from '@/lib/utils';
+
+interface TextOverlayCanvasProps {
+  image: string;
+  layers: TextLayer[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onMove: (id: string, x: number, y: number) => void;
+  interactive: boolean;
+}
+
+/**
+ * Live preview of the text layers over an `object-cover` image, drawn at the
+ * image's native size with the same code used on export. Layers can be dragged.
+ */
+export function TextOverlayCanvas({
+  image,
+  layers,
+  selectedId,
+  onSelect,
+  onMove,
+  interactive,
+}: TextOverlayCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drag = useRef<{id: string; dx: number; dy: number} | null>(null);
+  const [size, setSize] = useState<{width: number; height: number} | null>(
+    null
+  );
+
+  useEffect(() => {
+    const img = new window.Image();
+    img.onload = () => setSize({width: img.naturalWidth, height: img.naturalHeight});
+    img.src = image;
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    let cancelled = false;
+    loadLayerFonts(layers).finally(() => {
+      if (cancelled) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawTextLayers(ctx, layers, canvas.width, canvas.height);
+      const selected = layers.find(layer => layer.id === selectedId);
+      if (selected && interactive) {
+        const box = measureTextLayer(ctx, selected, canvas.height);
+        ctx.save();
+        ctx.translate(selected.x * canvas.width, selected.y * canvas.height);
+        ctx.rotate((selected.rotation * Math.PI) / 180);
+        ctx.setLineDash([canvas.height / 80, canvas.height / 120]);
+        ctx.lineWidth = Math.max(1, canvas.height / 360);
+        ctx.strokeStyle = '#38bdf8';
+        ctx.strokeRect(-box.width / 2, -box.height / 2, box.width, box.height);
+        ctx.restore();
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [layers, selectedId, interactive, size]);
+
+  const toImagePoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    // Same math as object-fit: cover.
+    const scale = Math.max(rect.width / canvas.width, rect.height / canvas.height);
+    return {
+      x: (event.clientX - rect.left - (rect.width - canvas.width * scale) / 2) / scale,
+      y: (event.clientY - rect.top - (rect.height - canvas.height * scale) / 2) / scale,
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const point = toImagePoint(event);
+    const hit = hitTestTextLayers(ctx, layers, point, canvas.width, canvas.height);
+    onSelect(hit?.id ?? null);
+    if (!hit) return;
+    canvas.setPointerCapture(event.pointerId);
+    drag.current = {
+      id: hit.id,
+      dx: hit.x - point.x / canvas.width,
+      dy: hit.y - point.y / canvas.height,
+    };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drag.current) return;
+    const canvas = event.currentTarget;
+    const point = toImagePoint(event);
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    onMove(
+      drag.current.id,
+      clamp(point.x / canvas.width + drag.current.dx),
+      clamp(point.y / canvas.height + drag.current.dy)
+    );
+  };
+
+  if (!size) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size.width}
+      height={size.height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => (drag.current = null)}
+      onPointerCancel={() => (drag.current = null)}
+      className={cn(
+        'absolute inset-0 h-full w-full touch-none object-cover',
+        interactive ? 'cursor-move' : 'pointer-events-none'
+      )}
+    />
+  );
+}
+
+interface TextLayerPanelProps {
+  layers: TextLayer[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (layers: TextLayer[]) => void;
+  disabled: boolean;
+}
+
+export function TextLayerPanel({
+  layers,
+  selectedId,
+  onSelect,
+  onChange,
+  disabled,
+}: TextLayerPanelProps) {
+  const selected = layers.find(layer => layer.id === selectedId);
+
+  const update = (changes: Partial<TextLayer>) => {
+    if (!selected) return;
+    onChange(
+      layers.map(layer =>
+        layer.id === selected.id ? {...layer, ...changes} : layer
+      )
+    );
+  };
+
+  const handleAdd = () => {
+    const layer = createTextLayer();
+    // Stagger new layers so they don't sit exactly on top of each other.
+    layer.y = Math.min(0.85, 0.2 + layers.length * 0.15);
+    onChange([...layers, layer]);
+    onSelect(layer.id);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(layers.filter(layer => layer.id !== id));
+    if (selectedId === id) onSelect(null);
+  };
+
+  return (
+    <div className="w-full max-w-2xl mt-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="font-semibold flex items-center gap-2 text-base">
+          <Type className="w-5 h-5" />
+          Text Layers
+        </Label>
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={disabled}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add text
+        </Button>
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Add headline text here instead of asking the model to draw it. Text
+          layers are rendered exactly as typed and merged into the image when
+          you download.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {layers.map(layer => (
+            <div
+              key={layer.id}
+              className={cn(
+                'flex items-center rounded-md border text-sm',
+                layer.id === selectedId && 'border-primary bg-primary/10'
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(layer.id)}
+                className="max-w-[10rem] truncate px-2 py-1"
+              >
+                {layer.text.split('\n')[0] || 'Empty'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemove(layer.id)}
+                disabled={disabled}
+                className="px-1.5 text-muted-foreground hover:text-destructive"
+                aria-label="Remove text layer"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-4 rounded-lg border bg-background p-4">
+          <Textarea
+            value={selected.text}
+            onChange={e => update({text: e.target.value})}
+            rows={2}
+            disabled={disabled}
+            aria-label="Layer text"
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="layer-font">Font</Label>
+              <Select
+                value={selected.font}
+                onValueChange={font => update({font})}
+                disabled={disabled}
+              >
+                <SelectTrigger id="layer-font">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THUMBNAIL_FONTS.map(font => (
+                    <SelectItem key={font.value} value={font.value}>
+                      <span style={{fontFamily: font.stack}}>{font.label}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <SliderField
+              label="Size"
+              value={Math.round(selected.size * 100)}
+              min={3}
+              max={40}
+              onChange={value => update({size: value / 100})}
+              disabled={disabled}
+            />
+            <SliderField
+              label="Rotation"
+              value={selected.rotation}
+              min={-45}
+              max={45}
+              suffix="°"
+              onChange={rotation => update({rotation})}
+              disabled={disabled}
+            />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Gradient fill</Label>
+                <Switch
+                  checked={selected.fill.type === 'gradient'}
+                  onCheckedChange={checked =>
+                    update({
+                      fill: checked
+                        ? {
+                            type: 'gradient',
+                            from: selected.fill.type === 'solid' ? selected.fill.color : '#ffffff',
+                            to: '#facc15',
+                            angle: 90,
+                          }
+                        : {
+                            type: 'solid',
+                            color: selected.fill.type === 'gradient' ? selected.fill.from : '#ffffff',
+                          },
+                    })
+                  }
+                  disabled={disabled}
+                />
+              </div>
+              {selected.fill.type === 'gradient' ? (
+                <div className="flex items-center gap-2">
+                  <ColorInput
+                    value={selected.fill.from}
+                    onChange={from =>
+                      selected.fill.type === 'gradient' &&
+                      update({fill: {...selected.fill, from}})
+                    }
+                    label="Gradient start color"
+                    disabled={disabled}
+                  />
+                  <ColorInput
+                    value={selected.fill.to}
+                    onChange={to =>
+                      selected.fill.type === 'gradient' &&
+                      update({fill: {...selected.fill, to}})
+                    }
+                    label="Gradient end color"
+                    disabled={disabled}
+                  />
+                  <Slider
+                    min={0}
+                    max={180}
+                    step={15}
+                    value={[selected.fill.angle]}
+                    onValueChange={([angle]) =>
+                      selected.fill.type === 'gradient' &&
+                      update({fill: {...selected.fill, angle}})
+                    }
+                    disabled={disabled}
+                    aria-label="Gradient angle"
+                  />
+                </div>
+              ) : (
+                <ColorInput
+                  value={selected.fill.color}
+                  onChange={color => update({fill: {type: 'solid', color}})}
+                  label="Text color"
+                  disabled={disabled}
+                />
+              )}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Outline</Label>
+                <Switch
+                  checked={!!selected.stroke}
+                  onCheckedChange={checked =>
+                    update({stroke: checked ? {color: '#000000', width: 0.08} : null})
+                  }
+                  disabled={disabled}
+                />
+              </div>
+              {selected.stroke && (
+                <div className="flex items-center gap-2">
+                  <ColorInput
+                    value={selected.stroke.color}
+                    onChange={color =>
+                      selected.stroke && update({stroke: {...selected.stroke, color}})
+                    }
+                    label="Outline color"
+                    disabled={disabled}
+                  />
+                  <Slider
+                    min={1}
+                    max={20}
+                    step={1}
+                    value={[Math.round(selected.stroke.width * 100)]}
+                    onValueChange={([width]) =>
+                      selected.stroke &&
+                      update({stroke: {...selected.stroke, width: width / 100}})
+                    }
+                    disabled={disabled}
+                    aria-label="Outline width"
+                  />
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Drop shadow</Label>
+                <Switch
+                  checked={!!selected.shadow}
+                  onCheckedChange={checked =>
+                    update({
+                      shadow: checked
+                        ? {color: 'rgba(0, 0, 0, 0.6)', blur: 0.15, offset: 0.04}
+                        : null,
+                    })
+                  }
+                  disabled={disabled}
+                />
+              </div>
+              {selected.shadow && (
+                <Slider
+                  min={0}
+                  max={50}
+                  step={1}
+                  value={[Math.round(selected.shadow.blur * 100)]}
+                  onValueChange={([blur]) =>
+                    selected.shadow &&
+                    update({shadow: {...selected.shadow, blur: blur / 100}})
+                  }
+                  disabled={disabled}
+                  aria-label="Shadow softness"
+                />
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Drag text on the preview to position it.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SliderField({
+  label,
+  value,
+  min,
+  max,
+  suffix = '',
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  suffix?: string;
+  onChange: (value: number) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <span className="text-xs text-muted-foreground tabular-nums">
+          {value}
+          {suffix}
+        </span>
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        step={1}
+        value={[value]}
+        onValueChange={([next]) => onChange(next)}
+        disabled={disabled}
+        aria-label={label}
+      />
+    </div>
+  );
+}
+
+function ColorInput({
+  value,
+  onChange,
+  label,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  label: string;
+  disabled: boolean;
+}) {
+  return (
+    <Input
+      type="color"
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="h-9 w-12 shrink-0 cursor-pointer p-1"
+      aria-label={label}
+      disabled={disabled}
+    />
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+
+import {GENRE_PRESETS, type GenrePreset} from '@/lib/genre-presets';
+
+const CUSTOM_PRESETS_KEY = 'thumbcraft:genre-presets';
+
+/**
+ * The built-in genre presets followed by the ones the user saved. Saved presets
+ * are kept in localStorage, so they are shared by every project in the browser.
+ */
+export function useGenrePresets() {
+  const [customPresets, setCustomPresets] = useState<GenrePreset[]>([]);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(CUSTOM_PRESETS_KEY);
+      if (stored) setCustomPresets(JSON.parse(stored));
+    } catch (err) {
+      console.error('Error loading saved presets:', err);
+    }
+  }, []);
+
+  const persist = useCallback((update: (prev: GenrePreset[]) => GenrePreset[]) => {
+    setCustomPresets(prev => {
+      const next = update(prev);
+      localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const savePreset = useCallback(
+    (preset: Omit<GenrePreset, 'id' | 'custom'>) => {
+      const saved: GenrePreset = {...preset, id: crypto.randomUUID(), custom: true};
+      persist(prev => [...prev, saved]);
+      return saved;
+    },
+    [persist]
+  );
+
+  const deletePreset = useCallback(
+    (id: string) => persist(prev => prev.filter(preset => preset.id !== id)),
+    [persist]
+  );
+
+  return {
+    presets: [...GENRE_PRESETS, ...customPresets],
+    savePreset,
+    deletePreset,
+  };
+}
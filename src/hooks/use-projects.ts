@@ -0,0 +1,188 @@
+'use client';
+
+import {useCallback, useEffect, useState} from 'react';
+
+import {
+  getGenerationStore,
+  type GenerationRecord,
+  type NewGeneration,
+  type Project,
+} from '@/lib/storage';
+import type {WorkspaceBrandKit} from '@/lib/brand-kit';
+
+const DEFAULT_PROJECT_NAME = 'My thumbnails';
+const ACTIVE_PROJECT_KEY = 'thumbcraft:active-project';
+
+/**
+ * Loads projects and the active project's generations from the configured
+ * store, and keeps local state in sync with every write.
+ */
+export function useProjects() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [generations, setGenerations] = useState<GenerationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const store = getGenerationStore();
+        let list = await store.listProjects();
+        if (list.length === 0) {
+          list = [await store.createProject(DEFAULT_PROJECT_NAME)];
+        }
+        if (cancelled) return;
+        const remembered = localStorage.getItem(ACTIVE_PROJECT_KEY);
+        setProjects(list);
+        setActiveProjectId(
+          list.find(project => project.id === remembered)?.id ?? list[0].id
+        );
+      } catch (err) {
+        console.error('Error loading projects:', err);
+        if (!cancelled) {
+          setError((err as Error).message);
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!activeProjectId) return;
+    let cancelled = false;
+    localStorage.setItem(ACTIVE_PROJECT_KEY, activeProjectId);
+    setIsLoading(true);
+    getGenerationStore()
+      .listGenerations(activeProjectId)
+      .then(records => {
+        if (!cancelled) setGenerations(records);
+      })
+      .catch(err => {
+        console.error('Error loading generations:', err);
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  const createProject = useCallback(async (name: string) => {
+    const project = await getGenerationStore().createProject(name);
+    setProjects(prev => [...prev, project]);
+    setActiveProjectId(project.id);
+    return project;
+  }, []);
+
+  const renameProject = useCallback(async (id: string, name: string) => {
+    await getGenerationStore().renameProject(id, name);
+    setProjects(prev =>
+      prev.map(project => (project.id === id ? {...project, name} : project))
+    );
+  }, []);
+
+  const updateBrandKit = useCallback(
+    async (id: string, brandKit: WorkspaceBrandKit | null) => {
+      await getGenerationStore().updateBrandKit(id, brandKit);
+      setProjects(prev =>
+        prev.map(project =>
+          project.id === id
+            ? {...project, brandKit: brandKit ?? undefined}
+            : project
+        )
+      );
+    },
+    []
+  );
+
+  const deleteProject = useCallback(
+    async (id: string) => {
+      const store = getGenerationStore();
+      await store.deleteProject(id);
+      let remaining = projects.filter(project => project.id !== id);
+      if (remaining.length === 0) {
+        remaining = [await store.createProject(DEFAULT_PROJECT_NAME)];
+      }
+      setProjects(remaining);
+      if (activeProjectId === id) setActiveProjectId(remaining[0].id);
+    },
+    [projects, activeProjectId]
+  );
+
+  /**
+   * Persists generations to the active project. A failed write is logged and
+   * reported via `error` rather than interrupting the generation flow.
+   */
+  const saveGenerations = useCallback(
+    async (entries: Array<Omit<NewGeneration, 'projectId'>>) => {
+      if (!activeProjectId || entries.length === 0) return [];
+      const store = getGenerationStore();
+      try {
+        const saved = await Promise.all(
+          entries.map(entry =>
+            store.saveGeneration({...entry, projectId: activeProjectId})
+          )
+        );
+        setGenerations(prev => [...prev, ...saved]);
+        return saved;
+      } catch (err) {
+        console.error('Error saving generation:', err);
+        setError((err as Error).message);
+        return [];
+      }
+    },
+    [activeProjectId]
+  );
+
+  const updateGeneration = useCallback(
+    async (
+      id: string,
+      changes: Partial<Omit<GenerationRecord, 'id' | 'projectId'>>
+    ) => {
+      setGenerations(prev =>
+        prev.map(record => (record.id === id ? {...record, ...changes} : record))
+      );
+      try {
+        await getGenerationStore().updateGeneration(id, changes);
+      } catch (err) {
+        console.error('Error updating generation:', err);
+        setError((err as Error).message);
+      }
+    },
+    []
+  );
+
+  const deleteGeneration = useCallback(async (id: string) => {
+    setGenerations(prev => prev.filter(record => record.id !== id));
+    try {
+      await getGenerationStore().deleteGeneration(id);
+    } catch (err) {
+      console.error('Error deleting generation:', err);
+      setError((err as Error).message);
+    }
+  }, []);
+
+  return {
+    projects,
+    activeProject: projects.find(project => project.id === activeProjectId),
+    selectProject: setActiveProjectId,
+    createProject,
+    renameProject,
+    updateBrandKit,
+    deleteProject,
+    generations,
+    saveGenerations,
+    updateGeneration,
+    deleteGeneration,
+    isLoading,
+    error,
+    clearError: useCallback(() => setError(null), []),
+  };
+}
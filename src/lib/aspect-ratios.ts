@@ -0,0 +1,134 @@
+/**
+ * Single source of truth for supported aspect ratios: used by the flow
+ * schemas, the ratio-rule prompt template, the preview layout and export presets.
+ */
+
+export const ASPECT_RATIO_IDS = [
+  '16:9',
+  '9:16',
+  '1:1',
+  '4:5',
+  '3:2',
+  '2:3',
+  '4:3',
+  '21:9',
+] as const;
+
+export type AspectRatio = (typeof ASPECT_RATIO_IDS)[number];
+
+export interface AspectRatioSpec {
+  id: AspectRatio;
+  /** Short name shown in the ratio picker. */
+  label: string;
+  /** Where this ratio is typically used. */
+  platform: string;
+  /** Recommended output size in pixels. */
+  width: number;
+  height: number;
+  orientation: 'landscape' | 'portrait' | 'square';
+  /** Tailwind class for previews; must stay a literal so Tailwind picks it up. */
+  className: string;
+  /** Upload limit of the main platform, if it has one. */
+  maxUploadBytes?: number;
+  /** Platform-specific guidance on where not to put important content. */
+  safeMargins: string;
+}
+
+const MB = 1024 * 1024;
+
+export const ASPECT_RATIOS: Record<AspectRatio, AspectRatioSpec> = {
+  '16:9': {
+    id: '16:9',
+    label: 'Widescreen',
+    platform: 'YouTube thumbnail',
+    width: 1280,
+    height: 720,
+    orientation: 'landscape',
+    className: 'aspect-[16/9]',
+    maxUploadBytes: 2 * MB,
+    safeMargins:
+      'Keep headline text and faces out of the bottom-right corner, where YouTube overlays the video duration.',
+  },
+  '9:16': {
+    id: '9:16',
+    label: 'Vertical',
+    platform: 'Shorts, Reels and TikTok',
+    width: 1080,
+    height: 1920,
+    orientation: 'portrait',
+    className: 'aspect-[9/16]',
+    maxUploadBytes: 2 * MB,
+    safeMargins:
+      'Keep text and faces inside the central area; the top 12% and bottom 20% of the frame are covered by app controls and captions.',
+  },
+  '1:1': {
+    id: '1:1',
+    label: 'Square',
+    platform: 'Instagram feed',
+    width: 1080,
+    height: 1080,
+    orientation: 'square',
+    className: 'aspect-square',
+    maxUploadBytes: 8 * MB,
+    safeMargins: 'Keep important content at least 5% away from every edge.',
+  },
+  '4:5': {
+    id: '4:5',
+    label: 'Portrait',
+    platform: 'Instagram portrait post',
+    width: 1080,
+    height: 1350,
+    orientation: 'portrait',
+    className: 'aspect-[4/5]',
+    maxUploadBytes: 8 * MB,
+    safeMargins:
+      'The profile grid crops this to the central square, so keep the subject and headline within the middle 1:1 area.',
+  },
+  '3:2': {
+    id: '3:2',
+    label: 'Classic photo',
+    platform: 'Blog headers and Facebook link posts',
+    width: 1800,
+    height: 1200,
+    orientation: 'landscape',
+    className: 'aspect-[3/2]',
+    safeMargins: 'Keep important content at least 5% away from every edge.',
+  },
+  '2:3': {
+    id: '2:3',
+    label: 'Tall pin',
+    platform: 'Pinterest pin',
+    width: 1000,
+    height: 1500,
+    orientation: 'portrait',
+    className: 'aspect-[2/3]',
+    maxUploadBytes: 20 * MB,
+    safeMargins:
+      'Keep text away from the bottom-right corner, where Pinterest places its buttons, and keep it readable at small sizes.',
+  },
+  '4:3': {
+    id: '4:3',
+    label: 'Standard',
+    platform: 'Presentations and course platforms',
+    width: 1440,
+    height: 1080,
+    orientation: 'landscape',
+    className: 'aspect-[4/3]',
+    safeMargins: 'Keep important content at least 5% away from every edge.',
+  },
+  '21:9': {
+    id: '21:9',
+    label: 'Cinematic',
+    platform: 'Channel banners and cinematic headers',
+    width: 2560,
+    height: 1080,
+    orientation: 'landscape',
+    className: 'aspect-[21/9]',
+    safeMargins:
+      'Many placements crop the sides, so keep the subject and text within the central 16:9 area.',
+  },
+};
+
+export function isAspectRatio(value: string): value is AspectRatio {
+  return (ASPECT_RATIO_IDS as readonly string[]).includes(value);
+}
@@ -0,0 +1,68 @@
+/**
+ * A workspace's brand kit: the guidelines sent to every flow plus a logo that
+ * can be stamped onto exports. The logo never goes to the model; it is drawn
+ * locally so it stays pixel-exact.
+ */
+
+import type {BrandKit} from '@/ai/schemas/brand-kit';
+
+export const LOGO_CORNERS = [
+  {value: 'top-left', label: 'Top left'},
+  {value: 'top-right', label: 'Top right'},
+  {value: 'bottom-left', label: 'Bottom left'},
+  {value: 'bottom-right', label: 'Bottom right'},
+] as const;
+
+export type LogoCorner = (typeof LOGO_CORNERS)[number]['value'];
+
+export interface WorkspaceBrandKit extends BrandKit {
+  /** Logo as a data URI. */
+  logo?: string;
+  /** Default corner for the logo stamp on export. */
+  logoCorner: LogoCorner;
+}
+
+/** Largest logo size, as fractions of the image width and height. */
+const LOGO_MAX_WIDTH = 0.16;
+const LOGO_MAX_HEIGHT = 0.16;
+/** Gap between the logo and the image edges, as a fraction of the shorter side. */
+const LOGO_MARGIN = 0.04;
+
+export function createBrandKit(): WorkspaceBrandKit {
+  return {fonts: [], tone: [], dos: [], donts: [], logoCorner: 'top-left'};
+}
+
+/** The parts of the kit the flows use; undefined when the workspace has no kit. */
+export function brandGuidelines(
+  brandKit: WorkspaceBrandKit | undefined
+): BrandKit | undefined {
+  if (!brandKit) return undefined;
+  const {primaryColor, secondaryColor, fonts, tone, dos, donts} = brandKit;
+  return {primaryColor, secondaryColor, fonts, tone, dos, donts};
+}
+
+/** Draws the logo into a corner of a canvas, scaled to fit and keeping its aspect ratio. */
+export async function drawLogo(
+  ctx: CanvasRenderingContext2D,
+  logo: string,
+  corner: LogoCorner,
+  width: number,
+  height: number
+): Promise<void> {
+  const img = new window.Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error('Could not load the brand logo.'));
+    img.src = logo;
+  });
+  const scale = Math.min(
+    (width * LOGO_MAX_WIDTH) / img.naturalWidth,
+    (height * LOGO_MAX_HEIGHT) / img.naturalHeight
+  );
+  const logoWidth = img.naturalWidth * scale;
+  const logoHeight = img.naturalHeight * scale;
+  const margin = Math.min(width, height) * LOGO_MARGIN;
+  const x = corner.endsWith('left') ? margin : width - margin - logoWidth;
+  const y = corner.startsWith('top') ? margin : height - margin - logoHeight;
+  ctx.drawImage(img, x, y, logoWidth, logoHeight);
+}
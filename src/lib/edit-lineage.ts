@@ -0,0 +1,77 @@
+import type {GenerationRecord} from '@/lib/storage';
+
+export interface LineageNode {
+  record: GenerationRecord;
+  depth: number;
+  /** Whether the node lies on the path from the root to the current version. */
+  onPath: boolean;
+}
+
+/**
+ * Edit history of one thumbnail. Versions are stored as generations linked by
+ * `parentId`, so the tree survives reloads and shows up in project history.
+ */
+export interface Lineage {
+  current: GenerationRecord;
+  root: GenerationRecord;
+  /** Every version of the thumbnail in depth-first order, oldest branch first. */
+  nodes: LineageNode[];
+  parent?: GenerationRecord;
+}
+
+function childrenOf(generations: GenerationRecord[], id: string) {
+  return generations
+    .filter(record => record.parentId === id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Builds the lineage containing the generation whose image is shown, if any. */
+export function getLineage(
+  generations: GenerationRecord[],
+  image: string | null
+): Lineage | null {
+  if (!image) return null;
+  const byId = new Map(generations.map(record => [record.id, record]));
+  // Prefer the newest record when the same image was saved more than once.
+  const current = [...generations].reverse().find(record => record.image === image);
+  if (!current) return null;
+
+  const path = new Set<string>([current.id]);
+  let root = current;
+  while (root.parentId && byId.has(root.parentId) && !path.has(root.parentId)) {
+    root = byId.get(root.parentId)!;
+    path.add(root.id);
+  }
+
+  const nodes: LineageNode[] = [];
+  const visit = (record: GenerationRecord, depth: number) => {
+    nodes.push({record, depth, onPath: path.has(record.id)});
+    for (const child of childrenOf(generations, record.id)) {
+      visit(child, depth + 1);
+    }
+  };
+  visit(root, 0);
+
+  return {
+    current,
+    root,
+    nodes,
+    parent: current.parentId ? byId.get(current.parentId) : undefined,
+  };
+}
+
+/**
+ * The version redo should move to: the child that was last undone from, or
+ * the newest child when the user has not navigated away from this node yet.
+ */
+export function getRedoTarget(
+  generations: GenerationRecord[],
+  current: GenerationRecord,
+  lastVisitedChild: Record<string, string>
+): GenerationRecord | undefined {
+  const children = childrenOf(generations, current.id);
+  return (
+    children.find(child => child.id === lastVisitedChild[current.id]) ??
+    children[children.length - 1]
+  );
+}
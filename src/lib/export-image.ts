@@ -0,0 +1,173 @@
+/**
+ * Client-side export: resizes a thumbnail to a platform's exact dimensions,
+ * converts it and compresses it under the platform's file size limit.
+ */
+
+import {ASPECT_RATIO_IDS, ASPECT_RATIOS} from '@/lib/aspect-ratios';
+import {drawLogo, type LogoCorner} from '@/lib/brand-kit';
+
+export type ExportFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface ExportPreset {
+  id: string;
+  label: string;
+  /** Omitted for the original size. */
+  width?: number;
+  height?: number;
+  maxBytes?: number;
+  format: ExportFormat;
+}
+
+const MB = 1024 * 1024;
+
+/** One preset per registered aspect ratio, plus other common placements. */
+export const EXPORT_PRESETS: ExportPreset[] = [
+  ...ASPECT_RATIO_IDS.map(
+    (id): ExportPreset => ({
+      id,
+      label: ASPECT_RATIOS[id].platform,
+      width: ASPECT_RATIOS[id].width,
+      height: ASPECT_RATIOS[id].height,
+      maxBytes: ASPECT_RATIOS[id].maxUploadBytes,
+      format: 'image/jpeg',
+    })
+  ),
+  {id: 'x', label: 'X / Twitter', width: 1600, height: 900, maxBytes: 5 * MB, format: 'image/jpeg'},
+  {id: 'linkedin', label: 'LinkedIn', width: 1200, height: 627, maxBytes: 5 * MB, format: 'image/jpeg'},
+  {id: 'original', label: 'Original size', format: 'image/png'},
+];
+
+/** The preset that matches a generation aspect ratio without cropping. */
+export function defaultPresetFor(aspectRatio: string): ExportPreset {
+  return (
+    EXPORT_PRESETS.find(preset => preset.id === aspectRatio) ??
+    EXPORT_PRESETS[EXPORT_PRESETS.length - 1]
+  );
+}
+
+export interface ExportOptions {
+  width?: number;
+  height?: number;
+  format: ExportFormat;
+  maxBytes?: number;
+  /** Brand logo stamped after cropping, so it always lands inside the exported frame. */
+  logo?: {image: string; corner: LogoCorner};
+}
+
+export interface ExportResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** Encoder quality used for lossy formats. */
+  quality?: number;
+  /** False when even the lowest quality could not get under `maxBytes`. */
+  withinLimit: boolean;
+}
+
+const MAX_QUALITY = 0.95;
+const MIN_QUALITY = 0.4;
+const QUALITY_STEPS = 7;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load the thumbnail image.'));
+    img.src = src;
+  });
+}
+
+function encode(
+  canvas: HTMLCanvasElement,
+  format: ExportFormat,
+  quality?: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      blob =>
+        blob ? resolve(blob) : reject(new Error(`This browser cannot encode ${format}.`)),
+      format,
+      quality
+    )
+  );
+}
+
+export async function exportImage(
+  image: string,
+  options: ExportOptions
+): Promise<ExportResult> {
+  const img = await loadImage(image);
+  const width = options.width ?? img.naturalWidth;
+  const height = options.height ?? img.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+  ctx.imageSmoothingQuality = 'high';
+  if (options.format === 'image/jpeg') {
+    // JPEG has no alpha; avoid transparent areas turning black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  // Center crop to fill the target frame (object-fit: cover).
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const drawWidth = img.naturalWidth * scale;
+  const drawHeight = img.naturalHeight * scale;
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  if (options.logo) {
+    await drawLogo(ctx, options.logo.image, options.logo.corner, width, height);
+  }
+
+  if (options.format === 'image/png') {
+    const blob = await encode(canvas, options.format);
+    return {
+      blob,
+      width,
+      height,
+      withinLimit: !options.maxBytes || blob.size <= options.maxBytes,
+    };
+  }
+
+  let blob = await encode(canvas, options.format, MAX_QUALITY);
+  let quality = MAX_QUALITY;
+  if (options.maxBytes && blob.size > options.maxBytes) {
+    // Binary search for the highest quality that fits.
+    let low = MIN_QUALITY;
+    let high = MAX_QUALITY;
+    let best: {blob: Blob; quality: number} | null = null;
+    for (let i = 0; i < QUALITY_STEPS; i++) {
+      const mid = (low + high) / 2;
+      const attempt = await encode(canvas, options.format, mid);
+      if (attempt.size <= options.maxBytes) {
+        best = {blob: attempt, quality: mid};
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    if (!best) {
+      const smallest = await encode(canvas, options.format, MIN_QUALITY);
+      return {
+        blob: smallest,
+        width,
+        height,
+        quality: MIN_QUALITY,
+        withinLimit: smallest.size <= options.maxBytes,
+      };
+    }
+    ({blob, quality} = best);
+  }
+  return {blob, width, height, quality, withinLimit: true};
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / MB).toFixed(2)} MB`;
+}
+
+export function fileExtensionFor(format: ExportFormat): string {
+  return format === 'image/jpeg' ? 'jpg' : format.split('/')[1];
+}
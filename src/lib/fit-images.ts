@@ -0,0 +1,71 @@
+/**
+ * Shrinks images in the browser so a request carrying all of them fits under
+ * the platform's body limit. Images that already fit are sent unchanged; larger
+ * ones are downscaled and re-encoded as WebP (JPEG where the browser cannot
+ * encode WebP).
+ */
+
+import {
+  MAX_IMAGE_DIMENSION,
+  MAX_REQUEST_BYTES,
+  REQUEST_OVERHEAD_BYTES,
+} from '@/lib/image-limits';
+
+const QUALITIES = [0.92, 0.8, 0.65];
+/** How much each side shrinks when no quality is small enough. */
+const DOWNSCALE_STEP = 0.75;
+const MIN_DIMENSION = 64;
+
+function encode(canvas: HTMLCanvasElement, quality: number): string {
+  const webp = canvas.toDataURL('image/webp', quality);
+  return webp.startsWith('data:image/webp')
+    ? webp
+    : canvas.toDataURL('image/jpeg', quality);
+}
+
+/** Re-encodes `dataUri` to at most `maxLength` characters. */
+async function shrinkImage(dataUri: string, maxLength: number): Promise<string> {
+  const bitmap = await createImageBitmap(await (await fetch(dataUri)).blob());
+  try {
+    let scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    for (;;) {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      for (const quality of QUALITIES) {
+        const encoded = encode(canvas, quality);
+        if (encoded.length <= maxLength) return encoded;
+      }
+      if (Math.min(canvas.width, canvas.height) * DOWNSCALE_STEP < MIN_DIMENSION) {
+        throw new Error('An image could not be made small enough to upload.');
+      }
+      scale *= DOWNSCALE_STEP;
+    }
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Returns the images in the same order (and, for a tuple, the same types),
+ * shrinking only as many as needed. The space is shared out smallest first, so
+ * small images leave more room for large ones.
+ */
+export async function fitImagesToRequest<T extends readonly (string | undefined)[] | []>(
+  images: T
+): Promise<T> {
+  const present = images
+    .map((image, index) => ({image, index}))
+    .filter((entry): entry is {image: string; index: number} => !!entry.image)
+    .sort((a, b) => a.image.length - b.image.length);
+
+  const fitted: (string | undefined)[] = [...images];
+  let remaining = MAX_REQUEST_BYTES - REQUEST_OVERHEAD_BYTES;
+  for (const [i, {image, index}] of present.entries()) {
+    const share = Math.floor(remaining / (present.length - i));
+    fitted[index] = image.length <= share ? image : await shrinkImage(image, share);
+    remaining -= fitted[index]!.length;
+  }
+  return fitted as T;
+}
@@ -0,0 +1,80 @@
+/**
+ * Error codes shared by the flows, the server actions and the UI. The server
+ * classifies every failure into one of these (see `@/ai/errors`); the UI maps
+ * the code to a message that says whether to retry or change the input.
+ */
+
+export const FLOW_ERROR_CODES = [
+  'INVALID_INPUT',
+  'MISSING_API_KEY',
+  'RATE_LIMITED',
+  'SAFETY_BLOCKED',
+  'MODEL_TIMEOUT',
+  'EMPTY_MEDIA',
+  'UPSTREAM_ERROR',
+  'UNKNOWN',
+] as const;
+
+export type FlowErrorCode = (typeof FLOW_ERROR_CODES)[number];
+
+/** The failure shape returned by every server action and the streaming route. */
+export interface FlowFailure {
+  success: false;
+  /** The underlying error message, for logs and details. */
+  error: string;
+  code: FlowErrorCode;
+  /** Whether sending the same request again may succeed. */
+  retryable: boolean;
+  /** A user-facing explanation, e.g. why the model refused or which image was rejected. */
+  reason?: string;
+}
+
+const RETRYABLE_CODES: readonly FlowErrorCode[] = [
+  'RATE_LIMITED',
+  'MODEL_TIMEOUT',
+  'EMPTY_MEDIA',
+  'UPSTREAM_ERROR',
+  'UNKNOWN',
+];
+
+export function isRetryableCode(code: FlowErrorCode): boolean {
+  return RETRYABLE_CODES.includes(code);
+}
+
+export const FLOW_ERROR_MESSAGES: Record<
+  FlowErrorCode,
+  {title: string; description: string}
+> = {
+  INVALID_INPUT: {
+    title: 'Check your input',
+    description: 'Some of the settings or images were not accepted. Adjust them and try again.',
+  },
+  MISSING_API_KEY: {
+    title: 'AI provider not configured',
+    description: 'The server has no valid API key for the image model. Ask the administrator to set GOOGLE_API_KEY.',
+  },
+  RATE_LIMITED: {
+    title: 'Too many requests',
+    description: 'The model quota is used up for now. Wait a minute, then try again.',
+  },
+  SAFETY_BLOCKED: {
+    title: 'Blocked by safety filters',
+    description: 'The model refused this request. Rephrase the prompt or use different images; retrying as-is will not help.',
+  },
+  MODEL_TIMEOUT: {
+    title: 'The model took too long',
+    description: 'The request timed out. Try again; fewer candidates or images make it faster.',
+  },
+  EMPTY_MEDIA: {
+    title: 'No image came back',
+    description: 'The model answered without an image. This is usually a one-off, so try again.',
+  },
+  UPSTREAM_ERROR: {
+    title: 'The AI service is having trouble',
+    description: 'The model provider returned an error. Try again in a moment.',
+  },
+  UNKNOWN: {
+    title: 'Something went wrong',
+    description: 'An unexpected error occurred. Please try again.',
+  },
+};
@@ -0,0 +1,124 @@
+/**
+ * Genre presets: starting points for common thumbnail genres. A preset sets the
+ * recommended aspect ratio and consistency mode, and its scaffolding is sent to
+ * the prompt optimizer as context alongside the user's own prompt.
+ */
+
+import type {BatchGenerateInput} from '@/ai/flows/batch-generate-thumbnails';
+import type {GenreContext} from '@/ai/schemas/genre-context';
+import type {AspectRatio} from '@/lib/aspect-ratios';
+
+export interface GenrePreset {
+  id: string;
+  label: string;
+  /** What thumbnails in this genre usually show and how they are composed. */
+  scaffolding: string;
+  aspectRatio: AspectRatio;
+  consistencyMode: BatchGenerateInput['consistencyMode'];
+  /** A sample prompt, shown as the prompt placeholder. */
+  examplePrompt: string;
+  /** What a strong result looks like. */
+  exampleOutput: string;
+  /** True for presets the user saved. */
+  custom?: boolean;
+}
+
+export const GENRE_PRESETS: GenrePreset[] = [
+  {
+    id: 'gaming',
+    label: 'Gaming',
+    scaffolding:
+      'A hero character or in-game moment in the foreground, saturated neon colors, motion and energy, a short hype headline of 2-4 words, and the game world visible behind.',
+    aspectRatio: '16:9',
+    consistencyMode: 'style',
+    examplePrompt: 'Surviving 100 days in a frozen wasteland',
+    exampleOutput:
+      'A battle-worn player in fur armor facing a giant ice golem, blue and orange rim light, snow particles, bold white "DAY 100" in the top left.',
+  },
+  {
+    id: 'tech-review',
+    label: 'Tech review',
+    scaffolding:
+      'The product large and sharp as the hero, clean studio lighting, a minimal gradient background, an optional reviewer with an expressive face, and a short verdict word or rating.',
+    aspectRatio: '16:9',
+    consistencyMode: 'none',
+    examplePrompt: 'Reviewing the new foldable phone after one month',
+    exampleOutput:
+      'A half-folded phone floating at an angle with a soft reflection, dark blue gradient, the reviewer pointing at the hinge, the headline "WORTH IT?".',
+  },
+  {
+    id: 'vlog',
+    label: 'Vlog',
+    scaffolding:
+      'The creator close up with a natural, candid expression, a recognizable location behind them, warm authentic colors, and a casual handwritten-style headline.',
+    aspectRatio: '16:9',
+    consistencyMode: 'character',
+    examplePrompt: 'A weekend in Lisbon on a tiny budget',
+    exampleOutput:
+      'The creator laughing in front of a yellow tram on a steep street, golden-hour light, "€50 WEEKEND" in a marker font.',
+  },
+  {
+    id: 'tutorial',
+    label: 'Tutorial',
+    scaffolding:
+      'A clear before/after or step visual of the result, the tool or software recognizable, high contrast, generous whitespace, and a headline that states the outcome.',
+    aspectRatio: '16:9',
+    consistencyMode: 'none',
+    examplePrompt: 'How to remove any background in 30 seconds',
+    exampleOutput:
+      'A split image of a portrait with and without its background, a cursor and selection outline, a bright teal accent, "30 SECONDS" in bold type.',
+  },
+  {
+    id: 'reaction',
+    label: 'Reaction',
+    scaffolding:
+      'An exaggerated facial expression large on one side, the thing being reacted to on the other, strong contrast between them, arrows or circles for emphasis, and a short punchy headline.',
+    aspectRatio: '16:9',
+    consistencyMode: 'character',
+    examplePrompt: 'Reacting to the worst cooking fails on the internet',
+    exampleOutput:
+      'The host with a horrified face on the right, a burnt cake on fire on the left, a red circle around the flames, "WHY?!" in yellow.',
+  },
+  {
+    id: 'finance',
+    label: 'Finance',
+    scaffolding:
+      'A trustworthy presenter or symbolic object (chart, coins, house), a clean dark or green palette, one big number as the hook, and a calm but confident tone.',
+    aspectRatio: '16:9',
+    consistencyMode: 'none',
+    examplePrompt: 'How I would invest my first $10,000',
+    exampleOutput:
+      'A stack of banknotes next to a rising green chart on a dark navy background, "$10,000" in large white type with a subtle glow.',
+  },
+  {
+    id: 'podcast',
+    label: 'Podcast',
+    scaffolding:
+      'The hosts and guest framed together or side by side, a consistent studio look, microphones visible, the guest name or episode topic as the headline, and a bold brand color block.',
+    aspectRatio: '1:1',
+    consistencyMode: 'style',
+    examplePrompt: 'Episode 42 with a former astronaut on life after space',
+    exampleOutput:
+      'Host and guest at studio microphones, a starfield visible through the window, a magenta band with "LIFE AFTER SPACE" across the bottom.',
+  },
+  {
+    id: 'cooking',
+    label: 'Cooking',
+    scaffolding:
+      'The finished dish as the hero in appetizing close-up, steam or texture details, natural warm light, a few raw ingredients around it, and a short headline with the dish name or time.',
+    aspectRatio: '16:9',
+    consistencyMode: 'none',
+    examplePrompt: 'The easiest 15-minute ramen you will ever make',
+    exampleOutput:
+      'A steaming bowl of ramen with a soft-boiled egg from a low angle, chopsticks lifting noodles, dark wood table, "15 MIN RAMEN" in cream letters.',
+  },
+];
+
+/** The part of a preset the prompt optimizer uses. */
+export function genreContext(preset: GenrePreset): GenreContext {
+  return {
+    label: preset.label,
+    scaffolding: preset.scaffolding,
+    example: preset.exampleOutput || undefined,
+  };
+}
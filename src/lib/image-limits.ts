@@ -0,0 +1,26 @@
+/**
+ * Limits for images sent to the flows. The server enforces them on every image
+ * input (see `@/ai/utils/image-input`); the client shrinks images before sending
+ * (see `@/lib/fit-images`) so requests stay under the hosting platform's body limit.
+ */
+
+/** MIME types the model accepts and the server can verify. */
+export const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+
+export type AllowedImageType = (typeof ALLOWED_IMAGE_TYPES)[number];
+
+/** Largest request body the deploy target (Vercel functions) accepts. */
+export const MAX_REQUEST_BYTES = 4_500_000;
+
+/** Room kept in every request for the prompt, settings and JSON encoding. */
+export const REQUEST_OVERHEAD_BYTES = 256 * 1024;
+
+/** Largest decoded image, in bytes: one base64 image filling the whole request. */
+export const MAX_IMAGE_BYTES = Math.floor(((MAX_REQUEST_BYTES - REQUEST_OVERHEAD_BYTES) * 3) / 4);
+
+/** Longest side of an image, in pixels. */
+export const MAX_IMAGE_DIMENSION = 8192;
+
+export function isAllowedImageType(type: string): type is AllowedImageType {
+  return (ALLOWED_IMAGE_TYPES as readonly string[]).includes(type);
+}
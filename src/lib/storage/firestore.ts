@@ -0,0 +1,235 @@
+import {getApp, getApps, initializeApp, type FirebaseOptions} from 'firebase/app';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  getFirestore,
+  orderBy,
+  query,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import {
+  deleteObject,
+  getBlob,
+  getStorage,
+  ref,
+  uploadString,
+  type FirebaseStorage,
+} from 'firebase/storage';
+
+import type {
+  GenerationRecord,
+  GenerationStore,
+  NewGeneration,
+  Project,
+} from './types';
+import type {WorkspaceBrandKit} from '@/lib/brand-kit';
+
+const PROJECTS = 'projects';
+const GENERATIONS = 'generations';
+
+/**
+ * Shape of a generation document. Images are too large for Firestore documents,
+ * so they live in Cloud Storage and the document only keeps their object paths.
+ */
+interface GenerationDocument
+  extends Omit<GenerationRecord, 'id' | 'image' | 'references'> {
+  imagePath: string;
+  referencePaths: string[];
+}
+
+/** Shape of a project document; the brand logo is kept in Cloud Storage as well. */
+interface ProjectDocument extends Omit<Project, 'id' | 'brandKit'> {
+  brandKit?: Omit<WorkspaceBrandKit, 'logo'> & {logoPath?: string};
+}
+
+export function firebaseConfigFromEnv(): FirebaseOptions | null {
+  const config: FirebaseOptions = {
+    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+  };
+  return config.apiKey && config.projectId && config.storageBucket
+    ? config
+    : null;
+}
+
+function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Cloud-backed store: metadata in Firestore, images in Cloud Storage. */
+export class FirestoreGenerationStore implements GenerationStore {
+  private db: Firestore;
+  private storage: FirebaseStorage;
+
+  constructor(config: FirebaseOptions) {
+    const app = getApps().length ? getApp() : initializeApp(config);
+    this.db = getFirestore(app);
+    this.storage = getStorage(app);
+  }
+
+  async listProjects(): Promise<Project[]> {
+    const snapshot = await getDocs(
+      query(collection(this.db, PROJECTS), orderBy('createdAt'))
+    );
+    return Promise.all(
+      snapshot.docs.map(async entry => {
+        const {brandKit, ...rest} = entry.data() as ProjectDocument;
+        if (!brandKit) return {id: entry.id, ...rest};
+        const {logoPath, ...kit} = brandKit;
+        const logo = logoPath ? await this.download(logoPath) : undefined;
+        return {id: entry.id, ...rest, brandKit: {...kit, logo}};
+      })
+    );
+  }
+
+  async createProject(name: string): Promise<Project> {
+    const data = {name, createdAt: Date.now()};
+    const created = await addDoc(collection(this.db, PROJECTS), data);
+    return {id: created.id, ...data};
+  }
+
+  async renameProject(id: string, name: string): Promise<void> {
+    await updateDoc(doc(this.db, PROJECTS, id), {name});
+  }
+
+  async updateBrandKit(id: string, brandKit: WorkspaceBrandKit | null): Promise<void> {
+    const target = doc(this.db, PROJECTS, id);
+    const logoPath = `${PROJECTS}/${id}/logo`;
+    if (!brandKit?.logo) {
+      await deleteObject(ref(this.storage, logoPath)).catch(() => undefined);
+    }
+    if (!brandKit) {
+      await updateDoc(target, {brandKit: deleteField()});
+      return;
+    }
+    const {logo, ...kit} = brandKit;
+    const data: NonNullable<ProjectDocument['brandKit']> = {...kit};
+    // Firestore rejects explicit undefined fields.
+    if (data.primaryColor === undefined) delete data.primaryColor;
+    if (data.secondaryColor === undefined) delete data.secondaryColor;
+    if (logo) data.logoPath = await this.upload(logoPath, logo);
+    await updateDoc(target, {brandKit: data});
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    const generations = await getDocs(
+      query(collection(this.db, GENERATIONS), where('projectId', '==', id))
+    );
+    await Promise.all(
+      generations.docs.map(entry =>
+        this.deleteImages(entry.data() as GenerationDocument)
+      )
+    );
+    const batch = writeBatch(this.db);
+    generations.docs.forEach(entry => batch.delete(entry.ref));
+    batch.delete(doc(this.db, PROJECTS, id));
+    await batch.commit();
+    await deleteObject(ref(this.storage, `${PROJECTS}/${id}/logo`)).catch(
+      () => undefined
+    );
+  }
+
+  async listGenerations(projectId: string): Promise<GenerationRecord[]> {
+    const snapshot = await getDocs(
+      query(
+        collection(this.db, GENERATIONS),
+        where('projectId', '==', projectId),
+        orderBy('timestamp')
+      )
+    );
+    return Promise.all(
+      snapshot.docs.map(async entry => {
+        const {imagePath, referencePaths, ...rest} =
+          entry.data() as GenerationDocument;
+        const [image, ...references] = await Promise.all(
+          [imagePath, ...referencePaths].map(path => this.download(path))
+        );
+        return {id: entry.id, ...rest, image, references};
+      })
+    );
+  }
+
+  async saveGeneration(generation: NewGeneration): Promise<GenerationRecord> {
+    const {image, references, ...rest} = generation;
+    const folder = `${GENERATIONS}/${generation.projectId}/${crypto.randomUUID()}`;
+    const [imagePath, ...referencePaths] = await Promise.all(
+      [image, ...references].map((dataUri, i) =>
+        this.upload(`${folder}/${i === 0 ? 'image' : `reference-${i}`}`, dataUri)
+      )
+    );
+    const data: GenerationDocument = {...rest, imagePath, referencePaths};
+    // Firestore rejects explicit undefined fields.
+    if (data.optimizedPrompt === undefined) delete data.optimizedPrompt;
+    if (data.parentId === undefined) delete data.parentId;
+    if (data.promptTemplates === undefined) delete data.promptTemplates;
+    const created = await addDoc(collection(this.db, GENERATIONS), data);
+    return {id: created.id, ...generation};
+  }
+
+  async updateGeneration(
+    id: string,
+    changes: Partial<Omit<GenerationRecord, 'id' | 'projectId'>>
+  ): Promise<void> {
+    const target = doc(this.db, GENERATIONS, id);
+    const {image, references, ...rest} = changes;
+    const update: Partial<GenerationDocument> = {...rest};
+    if (image !== undefined || references !== undefined) {
+      const current = await getDoc(target);
+      if (!current.exists()) throw new Error(`Generation ${id} not found.`);
+      const existing = current.data() as GenerationDocument;
+      const folder = existing.imagePath.replace(/\/[^/]+$/, '');
+      if (image !== undefined) {
+        update.imagePath = await this.upload(`${folder}/image`, image);
+      }
+      if (references !== undefined) {
+        update.referencePaths = await Promise.all(
+          references.map((dataUri, i) =>
+            this.upload(`${folder}/reference-${i + 1}`, dataUri)
+          )
+        );
+      }
+    }
+    await updateDoc(target, update);
+  }
+
+  async deleteGeneration(id: string): Promise<void> {
+    const target = doc(this.db, GENERATIONS, id);
+    const current = await getDoc(target);
+    if (!current.exists()) return;
+    await this.deleteImages(current.data() as GenerationDocument);
+    await deleteDoc(target);
+  }
+
+  private async upload(path: string, dataUri: string): Promise<string> {
+    const result = await uploadString(ref(this.storage, path), dataUri, 'data_url');
+    return result.ref.fullPath;
+  }
+
+  private async download(path: string): Promise<string> {
+    return blobToDataUri(await getBlob(ref(this.storage, path)));
+  }
+
+  private async deleteImages(data: GenerationDocument): Promise<void> {
+    await Promise.all(
+      [data.imagePath, ...data.referencePaths].map(path =>
+        deleteObject(ref(this.storage, path)).catch(() => undefined)
+      )
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import {IndexedDbGenerationStore} from './indexeddb';
+import {FirestoreGenerationStore, firebaseConfigFromEnv} from './firestore';
+import type {GenerationStore} from './types';
+
+export type {
+  GenerationRecord,
+  GenerationSource,
+  GenerationStore,
+  NewGeneration,
+  Project,
+} from './types';
+
+let store: GenerationStore | null = null;
+
+/**
+ * Returns the configured generation store. IndexedDB is the default and works
+ * offline; set NEXT_PUBLIC_STORAGE_BACKEND=firestore (plus the Firebase config
+ * variables) to sync projects through Firestore and Cloud Storage instead.
+ */
+export function getGenerationStore(): GenerationStore {
+  if (!store) {
+    const config = firebaseConfigFromEnv();
+    if (process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'firestore' && config) {
+      store = new FirestoreGenerationStore(config);
+    } else {
+      if (process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'firestore') {
+        console.warn(
+          'Firestore storage requested but Firebase config is incomplete; falling back to IndexedDB.'
+        );
+      }
+      store = new IndexedDbGenerationStore();
+    }
+  }
+  return store;
+}
@@ -0,0 +1,147 @@
+import type {
+  GenerationRecord,
+  GenerationStore,
+  NewGeneration,
+  Project,
+} from './types';
+import type {WorkspaceBrandKit} from '@/lib/brand-kit';
+
+const DB_NAME = 'thumbcraft';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const GENERATIONS = 'generations';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Browser-local store; works offline and keeps data across reloads. */
+export class IndexedDbGenerationStore implements GenerationStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(PROJECTS, {keyPath: 'id'});
+          const generations = db.createObjectStore(GENERATIONS, {
+            keyPath: 'id',
+          });
+          generations.createIndex('projectId', 'projectId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  async listProjects(): Promise<Project[]> {
+    const db = await this.open();
+    const projects = await promisify<Project[]>(
+      db.transaction(PROJECTS).objectStore(PROJECTS).getAll()
+    );
+    return projects.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async createProject(name: string): Promise<Project> {
+    const project: Project = {
+      id: crypto.randomUUID(),
+      name,
+      createdAt: Date.now(),
+    };
+    const db = await this.open();
+    await promisify(
+      db.transaction(PROJECTS, 'readwrite').objectStore(PROJECTS).add(project)
+    );
+    return project;
+  }
+
+  async renameProject(id: string, name: string): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(PROJECTS, 'readwrite').objectStore(PROJECTS);
+    const project = await promisify<Project | undefined>(store.get(id));
+    if (!project) throw new Error(`Project ${id} not found.`);
+    await promisify(store.put({...project, name}));
+  }
+
+  async updateBrandKit(id: string, brandKit: WorkspaceBrandKit | null): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(PROJECTS, 'readwrite').objectStore(PROJECTS);
+    const project = await promisify<Project | undefined>(store.get(id));
+    if (!project) throw new Error(`Project ${id} not found.`);
+    await promisify(store.put({...project, brandKit: brandKit ?? undefined}));
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([PROJECTS, GENERATIONS], 'readwrite');
+    tx.objectStore(PROJECTS).delete(id);
+    const generations = tx.objectStore(GENERATIONS);
+    const keys = await promisify(
+      generations.index('projectId').getAllKeys(IDBKeyRange.only(id))
+    );
+    keys.forEach(key => generations.delete(key));
+    await transactionDone(tx);
+  }
+
+  async listGenerations(projectId: string): Promise<GenerationRecord[]> {
+    const db = await this.open();
+    const records = await promisify<GenerationRecord[]>(
+      db
+        .transaction(GENERATIONS)
+        .objectStore(GENERATIONS)
+        .index('projectId')
+        .getAll(IDBKeyRange.only(projectId))
+    );
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async saveGeneration(generation: NewGeneration): Promise<GenerationRecord> {
+    const record: GenerationRecord = {id: crypto.randomUUID(), ...generation};
+    const db = await this.open();
+    await promisify(
+      db
+        .transaction(GENERATIONS, 'readwrite')
+        .objectStore(GENERATIONS)
+        .add(record)
+    );
+    return record;
+  }
+
+  async updateGeneration(
+    id: string,
+    changes: Partial<Omit<GenerationRecord, 'id' | 'projectId'>>
+  ): Promise<void> {
+    const db = await this.open();
+    const store = db
+      .transaction(GENERATIONS, 'readwrite')
+      .objectStore(GENERATIONS);
+    const record = await promisify<GenerationRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Generation ${id} not found.`);
+    await promisify(store.put({...record, ...changes}));
+  }
+
+  async deleteGeneration(id: string): Promise<void> {
+    const db = await this.open();
+    await promisify(
+      db
+        .transaction(GENERATIONS, 'readwrite')
+        .objectStore(GENERATIONS)
+        .delete(id)
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import type {PromptTemplateRef} from '@/ai/schemas/prompt-template';
+import type {WorkspaceBrandKit} from '@/lib/brand-kit';
+
+export type GenerationSource = 'single' | 'batch' | 'fusion' | 'edit';
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Brand guidelines applied to every generation in the project. */
+  brandKit?: WorkspaceBrandKit;
+}
+
+export interface GenerationRecord {
+  id: string;
+  projectId: string;
+  /** Generated image as a data URI. */
+  image: string;
+  /** The prompt as the user wrote it (or the batch/fusion description). */
+  prompt: string;
+  /** The prompt actually sent to the image model, when it differs from `prompt`. */
+  optimizedPrompt?: string;
+  /** Reference images (data URIs) that were sent along with the prompt. */
+  references: string[];
+  aspectRatio: string;
+  source: GenerationSource;
+  /** For edits, the generation that was edited; `prompt` holds the edit instruction. */
+  parentId?: string;
+  /** Prompt template versions that produced the image, including prompt optimization. */
+  promptTemplates?: PromptTemplateRef[];
+  timestamp: number;
+}
+
+export type NewGeneration = Omit<GenerationRecord, 'id'>;
+
+/**
+ * Persistence backend for projects and their generations. Implementations must
+ * return images as data URIs so they can be fed straight back into the flows.
+ */
+export interface GenerationStore {
+  listProjects(): Promise<Project[]>;
+  createProject(name: string): Promise<Project>;
+  renameProject(id: string, name: string): Promise<void>;
+  /** Replaces the project's brand kit; null removes it. */
+  updateBrandKit(id: string, brandKit: WorkspaceBrandKit | null): Promise<void>;
+  /** Deletes the project and every generation in it. */
+  deleteProject(id: string): Promise<void>;
+  /** Generations in the project, oldest first. */
+  listGenerations(projectId: string): Promise<GenerationRecord[]>;
+  saveGeneration(generation: NewGeneration): Promise<GenerationRecord>;
+  updateGeneration(
+    id: string,
+    changes: Partial<Omit<GenerationRecord, 'id' | 'projectId'>>
+  ): Promise<void>;
+  deleteGeneration(id: string): Promise<void>;
+}
@@ -0,0 +1,44 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+
+import {streamFlow} from '@/lib/stream-flow';
+
+function respondWith(body: string, init?: ResponseInit) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, init)));
+}
+
+function run() {
+  return streamFlow('generateThumbnail', {prompt: 'a cat', aspectRatio: '16:9'}, () => {});
+}
+
+describe('streamFlow', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports progress and resolves with the result', async () => {
+    respondWith(
+      '{"type":"progress","progress":{"stage":"generating","message":"Generating..."}}\n' +
+        '{"type":"result","result":{"thumbnail":"data:image/png;base64,AA=="}}\n'
+    );
+    const onProgress = vi.fn();
+
+    const result = await streamFlow('generateThumbnail', {prompt: 'a cat', aspectRatio: '16:9'}, onProgress);
+
+    expect(onProgress).toHaveBeenCalledWith({stage: 'generating', message: 'Generating...'});
+    expect(result).toEqual({success: true, result: {thumbnail: 'data:image/png;base64,AA=='}});
+  });
+
+  it.each([
+    ['a truncated line', '{"type":"progress","progress":{"stage":"gen'],
+    ['an HTML error page', '<html><body>Bad Gateway</body></html>'],
+  ])('fails with UPSTREAM_ERROR on %s', async (_, body) => {
+    respondWith(body);
+
+    await expect(run()).resolves.toEqual({
+      success: false,
+      error: 'The server sent a response that could not be read.',
+      code: 'UPSTREAM_ERROR',
+      retryable: true,
+    });
+  });
+});
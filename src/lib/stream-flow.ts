@@ -0,0 +1,117 @@
+import type {
+  GenerateThumbnailFromPromptInput,
+  GenerateThumbnailFromPromptOutput,
+} from '@/ai/flows/generate-thumbnail-from-prompt';
+import type {
+  BatchGenerateInput,
+  BatchGenerateOutput,
+} from '@/ai/flows/batch-generate-thumbnails';
+import type {
+  IntelligentFusionInput,
+  IntelligentFusionOutput,
+} from '@/ai/flows/intelligent-fusion';
+import type {FlowProgress} from '@/ai/schemas/progress';
+import {
+  FLOW_ERROR_CODES,
+  isRetryableCode,
+  type FlowErrorCode,
+  type FlowFailure,
+} from '@/lib/flow-errors';
+
+export type {FlowProgress};
+
+/** The flows served by the streaming route, by name. */
+export interface StreamingFlows {
+  generateThumbnail: {
+    input: GenerateThumbnailFromPromptInput;
+    output: GenerateThumbnailFromPromptOutput;
+  };
+  batchGenerate: {input: BatchGenerateInput; output: BatchGenerateOutput};
+  intelligentFusion: {
+    input: IntelligentFusionInput;
+    output: IntelligentFusionOutput;
+  };
+}
+
+type StreamLine<T> =
+  | {type: 'progress'; progress: FlowProgress}
+  | {type: 'result'; result: T}
+  | {
+      type: 'error';
+      error: string;
+      code: FlowErrorCode;
+      retryable: boolean;
+      reason?: string;
+    };
+
+function failure(error: string, code: unknown, reason?: string): FlowFailure {
+  const known = FLOW_ERROR_CODES.includes(code as FlowErrorCode)
+    ? (code as FlowErrorCode)
+    : 'UNKNOWN';
+  return {
+    success: false,
+    error,
+    code: known,
+    retryable: isRetryableCode(known),
+    ...(reason && {reason}),
+  };
+}
+
+/**
+ * Runs a flow through the streaming route, reporting progress events as they
+ * arrive. Resolves with the same `{success, ...}` shape as the server actions.
+ */
+export async function streamFlow<K extends keyof StreamingFlows>(
+  flow: K,
+  input: StreamingFlows[K]['input'],
+  onProgress: (event: FlowProgress) => void
+): Promise<
+  {success: true; result: StreamingFlows[K]['output']} | FlowFailure
+> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/flows/${flow}`, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify(input),
+    });
+  } catch (error) {
+    // The server could not be reached at all.
+    return failure((error as Error).message, 'UPSTREAM_ERROR');
+  }
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    return failure(
+      body?.error || `Request failed with status ${response.status}.`,
+      body?.code ?? (response.status >= 500 ? 'UPSTREAM_ERROR' : 'UNKNOWN')
+    );
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const {done, value} = await reader.read();
+    if (value) buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let message: StreamLine<StreamingFlows[K]['output']>;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // A truncated line, or an error page from a proxy in front of the route.
+        await reader.cancel();
+        return failure('The server sent a response that could not be read.', 'UPSTREAM_ERROR');
+      }
+      if (message.type === 'progress') onProgress(message.progress);
+      else if (message.type === 'result')
+        return {success: true, result: message.result};
+      else return failure(message.error, message.code, message.reason);
+    }
+
+    if (done) break;
+  }
+  return failure('The stream ended without a result.', 'UPSTREAM_ERROR');
+}
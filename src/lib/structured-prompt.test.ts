@@ -0,0 +1,44 @@
+import {describe, expect, it} from 'vitest';
+
+import {assembleStructuredPrompt, type StructuredPrompt} from '@/lib/structured-prompt';
+
+const empty: StructuredPrompt = {
+  subject: '',
+  composition: '',
+  background: '',
+  lighting: '',
+  palette: '',
+  style: '',
+  text: '',
+  mood: '',
+};
+
+describe('assembleStructuredPrompt', () => {
+  it('joins the fields in order as sentences', () => {
+    expect(
+      assembleStructuredPrompt({
+        ...empty,
+        subject: 'A ginger cat leaping.',
+        palette: 'teal and orange ',
+        style: 'Cinematic photo',
+        text: '"Cat Facts"',
+      })
+    ).toBe(
+      'A ginger cat leaping. Color palette: teal and orange. Style: Cinematic photo. ' +
+        'Render the text "Cat Facts" clearly and spelled exactly as written.'
+    );
+  });
+
+  it('leaves out the on-image text when text-free', () => {
+    expect(
+      assembleStructuredPrompt(
+        {...empty, subject: 'A ginger cat leaping', text: '"Cat Facts"', mood: 'Playful'},
+        {textFree: true}
+      )
+    ).toBe('A ginger cat leaping. Mood: Playful.');
+  });
+
+  it('returns an empty prompt when every field is empty', () => {
+    expect(assembleStructuredPrompt({...empty, mood: '  '})).toBe('');
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Optimized prompts broken down into named fields, so one aspect (say, the
+ * palette) can be tweaked without rewriting the whole paragraph.
+ */
+
+export const PROMPT_FIELDS = [
+  {key: 'subject', label: 'Subject', hint: 'Who or what the thumbnail is about, and what they are doing.'},
+  {key: 'composition', label: 'Composition', hint: 'Layout, framing, camera angle and subject placement.'},
+  {key: 'background', label: 'Background', hint: 'Setting and background elements.'},
+  {key: 'lighting', label: 'Lighting', hint: 'Light sources, direction, quality and contrast.'},
+  {key: 'palette', label: 'Palette', hint: 'Dominant colors and color treatment.'},
+  {key: 'style', label: 'Style', hint: 'Artistic style or medium, e.g. cinematic photo, flat illustration.'},
+  {key: 'text', label: 'On-image text', hint: 'Exact headline or words to render, if any.'},
+  {key: 'mood', label: 'Mood', hint: 'The emotion or energy the thumbnail should convey.'},
+] as const;
+
+export type PromptField = (typeof PROMPT_FIELDS)[number]['key'];
+
+export type StructuredPrompt = Record<PromptField, string>;
+
+const PREFIXES: Record<PromptField, (value: string) => string> = {
+  subject: value => value,
+  composition: value => `Composition: ${value}`,
+  background: value => `Background: ${value}`,
+  lighting: value => `Lighting: ${value}`,
+  palette: value => `Color palette: ${value}`,
+  style: value => `Style: ${value}`,
+  text: value => `Render the text "${value.replace(/^"|"$/g, '')}" clearly and spelled exactly as written`,
+  mood: value => `Mood: ${value}`,
+};
+
+/**
+ * Reassembles the fields into a single-paragraph prompt, skipping empty ones.
+ * A text-free prompt leaves out the on-image text, which belongs in a text layer.
+ */
+export function assembleStructuredPrompt(
+  structure: StructuredPrompt,
+  {textFree = false}: {textFree?: boolean} = {}
+): string {
+  const sentences = PROMPT_FIELDS.flatMap(({key}) => {
+    if (textFree && key === 'text') return [];
+    const value = structure[key].trim().replace(/[.\s]+$/, '');
+    return value ? [PREFIXES[key](value)] : [];
+  });
+  return sentences.length ? `${sentences.join('. ')}.` : '';
+}
@@ -0,0 +1,193 @@
+/**
+ * Text overlays rendered locally on a canvas, so headlines are always spelled
+ * exactly as typed. The same drawing code backs the live preview and export.
+ */
+
+export type TextFill =
+  | {type: 'solid'; color: string}
+  | {type: 'gradient'; from: string; to: string; angle: number};
+
+export interface TextLayer {
+  id: string;
+  text: string;
+  /** One of THUMBNAIL_FONTS' values. */
+  font: string;
+  /** Font size as a fraction of the image height, so layers scale with the export size. */
+  size: number;
+  fill: TextFill;
+  stroke: {color: string; width: number} | null;
+  shadow: {color: string; blur: number; offset: number} | null;
+  /** Degrees, clockwise. */
+  rotation: number;
+  /** Center of the text block, as fractions of the image width and height. */
+  x: number;
+  y: number;
+}
+
+/** Font stacks; `--font-*` variables are defined by next/font in the root layout. */
+export const THUMBNAIL_FONTS = [
+  {value: 'anton', label: 'Anton', stack: 'var(--font-anton), Impact, sans-serif'},
+  {value: 'bebas', label: 'Bebas Neue', stack: 'var(--font-bebas), Impact, sans-serif'},
+  {value: 'montserrat', label: 'Montserrat Black', stack: 'var(--font-montserrat), Arial Black, sans-serif'},
+  {value: 'marker', label: 'Permanent Marker', stack: 'var(--font-marker), cursive'},
+  {value: 'inter', label: 'Inter', stack: 'var(--font-inter), sans-serif'},
+] as const;
+
+const FONT_WEIGHT: Record<string, number> = {montserrat: 900};
+const LINE_HEIGHT = 1.1;
+
+export function createTextLayer(text = 'YOUR HEADLINE'): TextLayer {
+  return {
+    id: crypto.randomUUID(),
+    text,
+    font: 'anton',
+    size: 0.14,
+    fill: {type: 'solid', color: '#ffffff'},
+    stroke: {color: '#000000', width: 0.08},
+    shadow: {color: 'rgba(0, 0, 0, 0.6)', blur: 0.15, offset: 0.04},
+    rotation: 0,
+    x: 0.5,
+    y: 0.2,
+  };
+}
+
+/**
+ * Canvas can't read CSS variables, so swap each `var(--x)` for the family
+ * name next/font generated for it.
+ */
+function resolveFontStack(font: string): string {
+  const stack =
+    THUMBNAIL_FONTS.find(entry => entry.value === font)?.stack ??
+    THUMBNAIL_FONTS[0].stack;
+  const styles = getComputedStyle(document.body);
+  return stack.replace(/var\((--[\w-]+)\)/g, (_, name: string) =>
+    styles.getPropertyValue(name).trim() || 'sans-serif'
+  );
+}
+
+function fontFor(layer: TextLayer, height: number) {
+  const px = Math.max(1, Math.round(layer.size * height));
+  return {
+    px,
+    css: `${FONT_WEIGHT[layer.font] ?? 400} ${px}px ${resolveFontStack(layer.font)}`,
+  };
+}
+
+/** Ensures every font used by the layers is loaded before drawing. */
+export async function loadLayerFonts(layers: TextLayer[]): Promise<void> {
+  await Promise.all(
+    layers.map(layer => document.fonts.load(fontFor(layer, 100).css, layer.text))
+  );
+}
+
+/** Size of the layer's unrotated text block in canvas pixels. */
+export function measureTextLayer(
+  ctx: CanvasRenderingContext2D,
+  layer: TextLayer,
+  height: number
+) {
+  const {px, css} = fontFor(layer, height);
+  ctx.save();
+  ctx.font = css;
+  const lines = layer.text.split('\n');
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width));
+  ctx.restore();
+  return {width, height: lines.length * px * LINE_HEIGHT};
+}
+
+/** The topmost layer under a point given in canvas pixels, if any. */
+export function hitTestTextLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: TextLayer[],
+  point: {x: number; y: number},
+  width: number,
+  height: number
+): TextLayer | undefined {
+  return [...layers].reverse().find(layer => {
+    const box = measureTextLayer(ctx, layer, height);
+    const angle = (-layer.rotation * Math.PI) / 180;
+    const dx = point.x - layer.x * width;
+    const dy = point.y - layer.y * height;
+    const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+    const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+    return Math.abs(localX) <= box.width / 2 && Math.abs(localY) <= box.height / 2;
+  });
+}
+
+export function drawTextLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: TextLayer[],
+  width: number,
+  height: number
+) {
+  for (const layer of layers) {
+    const lines = layer.text.split('\n');
+    const {px, css} = fontFor(layer, height);
+    ctx.save();
+    ctx.font = css;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    ctx.translate(layer.x * width, layer.y * height);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+
+    const lineHeight = px * LINE_HEIGHT;
+    const blockWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const top = -((lines.length - 1) * lineHeight) / 2;
+
+    if (layer.fill.type === 'gradient') {
+      const angle = (layer.fill.angle * Math.PI) / 180;
+      const dx = (Math.cos(angle) * blockWidth) / 2;
+      const dy = (Math.sin(angle) * lines.length * lineHeight) / 2;
+      const gradient = ctx.createLinearGradient(-dx, -dy, dx, dy);
+      gradient.addColorStop(0, layer.fill.from);
+      gradient.addColorStop(1, layer.fill.to);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = layer.fill.color;
+    }
+
+    lines.forEach((line, i) => {
+      const y = top + i * lineHeight;
+      if (layer.shadow) {
+        ctx.shadowColor = layer.shadow.color;
+        ctx.shadowBlur = layer.shadow.blur * px;
+        ctx.shadowOffsetX = ctx.shadowOffsetY = layer.shadow.offset * px;
+      }
+      if (layer.stroke && layer.stroke.width > 0) {
+        ctx.strokeStyle = layer.stroke.color;
+        ctx.lineWidth = layer.stroke.width * px * 2;
+        ctx.strokeText(line, 0, y);
+        // Only the stroke casts the shadow, otherwise it is drawn twice.
+        ctx.shadowColor = 'transparent';
+      }
+      ctx.fillText(line, 0, y);
+      ctx.shadowColor = 'transparent';
+    });
+    ctx.restore();
+  }
+}
+
+/** Draws the layers onto the image at its native size and returns a PNG data URI. */
+export async function flattenTextLayers(
+  image: string,
+  layers: TextLayer[]
+): Promise<string> {
+  if (layers.length === 0) return image;
+  const img = new window.Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error('Could not load the thumbnail image.'));
+    img.src = image;
+  });
+  await loadLayerFonts(layers);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+  ctx.drawImage(img, 0, 0);
+  drawTextLayers(ctx, layers, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
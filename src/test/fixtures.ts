@@ -0,0 +1,14 @@
+/**
+ * @fileOverview Image fixtures for tests.
+ *
+ * @exports solidPng - A PNG data URI of a single color at the given size.
+ */
+
+import sharp from 'sharp';
+
+export async function solidPng(width: number, height: number, color = '#3366cc'): Promise<string> {
+  const png = await sharp({create: {width, height, channels: 3, background: color}})
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
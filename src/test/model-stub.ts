@@ -0,0 +1,104 @@
+/**
+ * @fileOverview Recording stub models for flow tests. Every request sent to "stub/image" or
+ * "stub/text" is recorded, and the responses default to the offline mock provider's output.
+ * Override a response with `imageModel.mockImplementationOnce(...)` or the helpers below.
+ *
+ * @exports imageModel - vi.fn runner behind "stub/image".
+ * @exports textModel - vi.fn runner behind "stub/text".
+ * @exports modelCalls - Requests received by either model, in call order.
+ * @exports registerStubModels - Define the stub models on a Genkit instance.
+ * @exports resetStubModels - Clear recorded calls and restore the default responses.
+ * @exports callsTo - Recorded calls to one of the models.
+ * @exports imageResponse, textResponse, emptyResponse, blockedResponse - Canned responses.
+ */
+
+import type {Genkit, GenerateRequest, GenerateResponseData} from 'genkit';
+import {vi} from 'vitest';
+
+import {
+  MOCK_IMAGE_MODEL_SUPPORTS,
+  MOCK_TEXT_MODEL_SUPPORTS,
+  mockImageModel,
+  mockTextModel,
+} from '@/ai/providers/mock';
+
+type ModelRunner = (request: GenerateRequest) => Promise<GenerateResponseData>;
+
+export interface ModelCall {
+  model: 'image' | 'text';
+  /** Concatenated text of the system message. */
+  system: string;
+  /** Concatenated text parts of the user message. */
+  text: string;
+  /** URLs of the user message's media parts, in order. */
+  media: string[];
+  /** Kind of each user message part, in order, e.g. ['media', 'media', 'text']. */
+  parts: Array<'media' | 'text'>;
+  request: GenerateRequest;
+}
+
+export const imageModel = vi.fn<ModelRunner>(mockImageModel);
+export const textModel = vi.fn<ModelRunner>(mockTextModel);
+export const modelCalls: ModelCall[] = [];
+
+function record(model: ModelCall['model'], request: GenerateRequest): ModelCall {
+  const user = request.messages.filter(message => message.role === 'user');
+  const parts = user.flatMap(message => message.content);
+  return {
+    model,
+    system: request.messages
+      .filter(message => message.role === 'system')
+      .flatMap(message => message.content.map(part => part.text ?? ''))
+      .join('\n'),
+    text: parts.flatMap(part => (part.text !== undefined ? [part.text] : [])).join('\n'),
+    media: parts.flatMap(part => (part.media ? [part.media.url] : [])),
+    parts: parts.flatMap(part => (part.media ? ['media' as const] : part.text !== undefined ? ['text' as const] : [])),
+    request,
+  };
+}
+
+export function registerStubModels(ai: Genkit) {
+  ai.defineModel(
+    {name: 'stub/image', supports: MOCK_IMAGE_MODEL_SUPPORTS},
+    async request => {
+      modelCalls.push(record('image', request));
+      return imageModel(request);
+    }
+  );
+  ai.defineModel(
+    {name: 'stub/text', supports: MOCK_TEXT_MODEL_SUPPORTS},
+    async request => {
+      modelCalls.push(record('text', request));
+      return textModel(request);
+    }
+  );
+}
+
+export function resetStubModels() {
+  modelCalls.length = 0;
+  imageModel.mockReset().mockImplementation(mockImageModel);
+  textModel.mockReset().mockImplementation(mockTextModel);
+}
+
+export function callsTo(model: ModelCall['model']): ModelCall[] {
+  return modelCalls.filter(call => call.model === model);
+}
+
+export function imageResponse(url: string): GenerateResponseData {
+  return {
+    message: {role: 'model', content: [{media: {url, contentType: 'image/png'}}]},
+    finishReason: 'stop',
+  };
+}
+
+export function textResponse(text: string): GenerateResponseData {
+  return {message: {role: 'model', content: [{text}]}, finishReason: 'stop'};
+}
+
+export function emptyResponse(): GenerateResponseData {
+  return {message: {role: 'model', content: []}, finishReason: 'stop'};
+}
+
+export function blockedResponse(reason = 'SAFETY'): GenerateResponseData {
+  return {message: {role: 'model', content: []}, finishReason: 'blocked', finishMessage: reason};
+}
@@ -0,0 +1,16 @@
+import {afterEach, beforeEach, vi} from 'vitest';
+
+import {ai} from '@/ai/genkit';
+import {registerStubModels, resetStubModels} from '@/test/model-stub';
+
+registerStubModels(ai);
+
+beforeEach(() => {
+  resetStubModels();
+  // Flows log handled failures; keep the test output readable.
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
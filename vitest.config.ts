@@ -0,0 +1,21 @@
+import path from 'node:path';
+import {defineConfig} from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {'@': path.resolve(__dirname, 'src')},
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    // Flows run against stub models registered by the setup file; never the network.
+    env: {
+      AI_PROVIDER: 'mock',
+      AI_IMAGE_MODEL: 'stub/image',
+      AI_TEXT_MODEL: 'stub/text',
+      GOOGLE_API_KEY: '',
+    },
+    testTimeout: 20_000,
+  },
+});